@@ -0,0 +1,1436 @@
+const vscode = acquireVsCodeApi();
+
+// Filter and grouping state, persisted so it survives updates and the panel being hidden.
+// The extension filters, sorts and groups the findings and sends the rows in view.
+const defaultViewState = {
+    text: '',
+    hiddenSeverities: [],
+    rules: [],
+    sources: [],
+    confidence: '',
+    cwe: '',
+    include: '',
+    exclude: '',
+    stale: '',
+    groupBy: 'none',
+    sortBy: 'none',
+    collapsed: []
+};
+const savedState = vscode.getState() || {};
+let viewState = { ...defaultViewState, ...savedState };
+
+// Results file of the session, persisted so that the panel can be restored after a reload
+let sourcePath = savedState.sourcePath || '';
+
+// IDs of the results selected for bulk triage
+const selection = new Set();
+
+// IDs of the results whose metadata row is expanded
+const expanded = new Set();
+
+// Tables sent by the extension: their size and version, and the pages of rows loaded so far
+const tables = new Map();
+
+// Severities, rules and source scans offered by the filter bar
+let facets = { severities: [], rules: [], sources: [] };
+
+// Configurable triage options sent by the extension
+let options = {
+    verdicts: [],
+    requireFalsePositiveNote: true
+};
+
+// Finding shown in the details pane, with its category once loaded, and
+// whether its form has unsaved edits
+let detailsId = null;
+let details = null;
+let detailsDirty = false;
+
+// Rapid triage mode: position in the shown untriaged findings, IDs sent for
+// triage but not yet moved by the extension, the current and next finding as
+// sent by the extension, and the loaded source previews
+let rapid = null;
+const rapidSources = new Map();
+
+// Summary of the comparison with a baseline sent by the extension, or null
+let baseline = null;
+
+const CATEGORY_LABELS = { untriaged: 'Untriaged', issues: 'Issue', falsePositives: 'False Positive', fixed: 'Fixed' };
+// Categories the analyst can triage to, findings only become fixed by applying their fix
+const TRIAGE_TARGETS = ['untriaged', 'issues', 'falsePositives'];
+const SEVERITIES = ['ERROR', 'WARNING', 'INFO'];
+
+// Rows have fixed heights, so that only the rows in view need to be rendered and loaded
+const ROW_HEIGHT = 36;
+const METADATA_ROW_HEIGHT = 168;
+const PAGE_SIZE = 100;
+// Rows rendered above and below the visible ones, to scroll without placeholders
+const OVERSCAN = 20;
+
+// --- Utility Functions ---
+
+/**
+ * Escapes a value for use in HTML text and attributes
+ */
+function escapeHtml(value) {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Returns the analyst's severity override, or the Semgrep severity
+ */
+function effectiveSeverity(item) {
+    return item.severityOverride || item.extra.severity;
+}
+
+/**
+ * Returns whether Semgrep suggested a fix for a finding
+ */
+function hasFix(item) {
+    return typeof item.extra.fix === 'string' || !!item.extra.fix_regex;
+}
+
+/**
+ * Normalizes a result path for glob matching
+ */
+function normalizePath(filePath) {
+    return filePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Returns the folder of a result path, or an empty string for the root
+ */
+function folderOf(filePath) {
+    const normalized = normalizePath(filePath);
+    const index = normalized.lastIndexOf('/');
+    return index === -1 ? '' : normalized.substring(0, index);
+}
+
+/**
+ * Stores the view state and asks the extension for the rows it selects
+ */
+function updateViewState(changes) {
+    viewState = { ...viewState, ...changes };
+    persistState();
+    sendViewOptions();
+}
+
+/**
+ * Sends the filters, sorting, grouping and expanded metadata rows to the extension
+ */
+function sendViewOptions() {
+    vscode.postMessage({ command: 'setViewOptions', data: { ...viewState, expanded: Array.from(expanded) } });
+}
+
+/**
+ * Persists the view state and the session's results file
+ */
+function persistState() {
+    vscode.setState({ ...viewState, sourcePath });
+}
+
+/**
+ * Renders a single table row (tr)
+ */
+function createRow(item, currentCategory) {
+    const tr = document.createElement('tr');
+    if (item.id === detailsId) {
+        tr.classList.add('details-shown');
+    }
+    tr.onclick = event => {
+        if (!['BUTTON', 'INPUT', 'SELECT', 'OPTION'].includes(event.target.tagName)) {
+            showDetails(item, currentCategory);
+        }
+    };
+
+    // Selection checkbox
+    const selectTd = document.createElement('td');
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = selection.has(item.id);
+    checkbox.onchange = () => {
+        if (checkbox.checked) {
+            selection.add(item.id);
+        } else {
+            selection.delete(item.id);
+            tables.forEach(view => view.allSelected = false);
+            document.querySelectorAll('.select-all').forEach(selectAll => selectAll.checked = false);
+        }
+        renderSelectionBar();
+    };
+    selectTd.appendChild(checkbox);
+    tr.appendChild(selectTd);
+
+    // check_id, with the toggle of the metadata row
+    const checkIdTd = document.createElement('td');
+    checkIdTd.title = item.check_id;
+    const toggle = document.createElement('button');
+    toggle.className = 'expand-toggle';
+    toggle.textContent = expanded.has(item.id) ? '▾' : '▸';
+    toggle.title = 'Show rule metadata';
+    toggle.onclick = () => {
+        if (expanded.has(item.id)) {
+            expanded.delete(item.id);
+        } else {
+            expanded.add(item.id);
+        }
+        sendViewOptions();
+    };
+    checkIdTd.appendChild(toggle);
+    checkIdTd.appendChild(document.createTextNode(item.check_id));
+    tr.appendChild(checkIdTd);
+
+    // message, with the verdict and a marker for analyst notes
+    const ignoredBadge = item.extra.is_ignored ? '<span class="badge" title="Suppressed in the code">ignored</span> ' : '';
+    const taintBadge = item.extra.dataflow_trace ? '<span class="badge" title="Has a dataflow trace, see the details pane">taint</span> ' : '';
+    const staleBadge = item.stale ? '<span class="badge badge-stale" title="The code of this finding no longer exists in the file, it may have been fixed">stale</span> ' : '';
+    const verdictBadge = ignoredBadge + taintBadge + staleBadge + (item.verdict ? `<span class="badge">${escapeHtml(item.verdict)}</span> ` : '');
+    const noteMarker = item.note ? ` <span title="${escapeHtml(item.note)}">📝</span>` : '';
+    tr.insertAdjacentHTML('beforeend', `<td title="${escapeHtml(item.extra.message)}">${verdictBadge}${escapeHtml(item.extra.message)}${noteMarker}</td>`);
+
+    // severity, marked when overridden by the analyst
+    const severity = effectiveSeverity(item);
+    const severityTitle = item.severityOverride ? `Overridden, Semgrep severity: ${item.extra.severity}` : '';
+    tr.insertAdjacentHTML('beforeend', `<td class="severity-${escapeHtml(severity)}" title="${escapeHtml(severityTitle)}">${escapeHtml(severity)}${item.severityOverride ? '*' : ''}</td>`);
+
+    // path
+    tr.insertAdjacentHTML('beforeend', `<td title="${escapeHtml(item.path)}">${escapeHtml(item.path)}:${Number(item.start.line)}</td>`);
+
+    // lines
+    tr.insertAdjacentHTML('beforeend', `<td class="lines-cell">${escapeHtml(item.extra.lines)}</td>`);
+
+    // Actions (buttons)
+    const actionsTd = document.createElement('td');
+    actionsTd.classList.add('actions');
+
+
+    // Go To Button
+    const goToBtn = document.createElement('button');
+    goToBtn.className = "action-button";
+    goToBtn.textContent = 'Go To';
+    goToBtn.onclick = () => {
+        Array.from(document.querySelectorAll('.selected')).forEach(
+            (el) => el.classList.remove('selected')
+        );
+        tr.className = "selected";
+        vscode.postMessage({
+            command: 'goTo',
+            data: {
+                path: item.path,
+                line: item.start.line,
+                col: item.start.col
+            }
+        });
+    };
+    actionsTd.appendChild(goToBtn);
+
+    // Issue Button (show only if NOT already in Issues)
+    if (currentCategory !== 'issues') {
+        const issueBtn = document.createElement('button');
+        issueBtn.className = "action-button action-issue";
+        issueBtn.textContent = 'Issue';
+        issueBtn.onclick = () => triageItem(item.id, currentCategory, 'issues');
+        actionsTd.appendChild(issueBtn);
+    }
+
+    // False Positive Button (show only if NOT already in False Positives)
+    if (currentCategory !== 'falsePositives') {
+        const fpBtn = document.createElement('button');
+        fpBtn.className = "action-button action-fp";
+        fpBtn.textContent = 'False Positive';
+        fpBtn.onclick = () => triageItem(item.id, currentCategory, 'falsePositives');
+        actionsTd.appendChild(fpBtn);
+    }
+
+    // Untriaged Button (show only if NOT already in Untriaged)
+    if (currentCategory !== 'untriaged') {
+        const untriagedBtn = document.createElement('button');
+        untriagedBtn.textContent = 'Untriaged';
+        untriagedBtn.onclick = () => triageItem(item.id, currentCategory, 'untriaged');
+        actionsTd.appendChild(untriagedBtn);
+    }
+
+    // Fix Buttons (show only for findings with a fix that was not applied yet)
+    if (currentCategory !== 'fixed' && hasFix(item)) {
+        const previewBtn = document.createElement('button');
+        previewBtn.textContent = 'Preview Fix';
+        previewBtn.onclick = () => vscode.postMessage({ command: 'previewFix', data: { id: item.id } });
+        actionsTd.appendChild(previewBtn);
+
+        const fixBtn = document.createElement('button');
+        fixBtn.textContent = 'Apply Fix';
+        fixBtn.onclick = () => vscode.postMessage({ command: 'applyFix', data: { ids: [item.id] } });
+        actionsTd.appendChild(fixBtn);
+    }
+
+    actionsTd.appendChild(createBulkSelect(item, currentCategory));
+
+    tr.appendChild(actionsTd);
+    return tr;
+}
+
+/**
+ * Renders the rule metadata of a finding. Links are opened by the extension.
+ */
+function renderMetadata(item) {
+    const metadata = item.extra.metadata || {};
+    const link = url => `<a href="#" data-url="${escapeHtml(url)}" title="${escapeHtml(url)}">${escapeHtml(url)}</a>`;
+    const rows = [];
+    const add = (label, html) => rows.push(`<dt>${escapeHtml(label)}</dt><dd>${html}</dd>`);
+
+    if (metadata.cwe) {
+        add('CWE', metadata.cwe.map(escapeHtml).join('<br>'));
+    }
+    if (metadata.owasp) {
+        add('OWASP', metadata.owasp.map(escapeHtml).join('<br>'));
+    }
+    ['confidence', 'likelihood', 'impact'].forEach(key => {
+        if (metadata[key]) {
+            add(key.charAt(0).toUpperCase() + key.slice(1), escapeHtml(metadata[key]));
+        }
+    });
+    if (item.extra.engine_kind) {
+        add('Engine', escapeHtml(item.extra.engine_kind));
+    }
+    if (item.extra.is_ignored) {
+        add('Ignored', 'Suppressed in the code');
+    }
+    if (metadata.source) {
+        add('Rule', link(metadata.source));
+    }
+    if (metadata.references && metadata.references.length > 0) {
+        add('References', metadata.references.map(url => /^https?:\/\//i.test(url) ? link(url) : escapeHtml(url)).join('<br>'));
+    }
+
+    // Other metadata, e.g. category or technology
+    const known = ['cwe', 'owasp', 'confidence', 'likelihood', 'impact', 'source', 'source-rule-url', 'references'];
+    Object.keys(metadata).filter(key => !known.includes(key)).sort().forEach(key => {
+        const value = metadata[key];
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            add(key, escapeHtml(String(value)));
+        } else if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) {
+            add(key, value.map(escapeHtml).join(', '));
+        }
+    });
+
+    return rows.length > 0 ? `<dl class="metadata">${rows.join('')}</dl>` : '<p class="metadata-empty">No rule metadata.</p>';
+}
+
+/**
+ * Renders the drop-down with the rule and folder wide actions of a row
+ */
+function createBulkSelect(item, currentCategory) {
+    const folder = folderOf(item.path);
+    const folderLabel = folder || 'the root folder';
+    const labels = { untriaged: 'Untriaged', issues: 'Issue', falsePositives: 'False Positive' };
+
+    const select = document.createElement('select');
+    select.className = 'bulk-select';
+    select.add(new Option('More…', ''));
+    Object.keys(labels).filter(to => to !== currentCategory).forEach(to => {
+        select.add(new Option(`All of this rule → ${labels[to]}`, `rule:${to}`));
+        select.add(new Option(`Everything under ${folderLabel} → ${labels[to]}`, `folder:${to}`));
+    });
+    ['issues', 'falsePositives'].forEach(to => {
+        select.add(new Option(`Always ${labels[to]} for this rule under ${folderLabel}`, `policy:${to}`));
+    });
+    if (currentCategory !== 'fixed' && hasFix(item)) {
+        select.add(new Option('Apply all fixes of this rule', 'fix:rule'));
+    }
+
+    // The extension knows all findings of the category, including those not loaded here
+    select.onchange = () => {
+        const [scope, to] = select.value.split(':');
+        select.value = '';
+        if (scope === 'rule') {
+            vscode.postMessage({ command: 'triageScope', data: { category: currentCategory, rule: item.check_id, to } });
+        } else if (scope === 'folder') {
+            vscode.postMessage({ command: 'triageScope', data: { category: currentCategory, folder, to } });
+        } else if (scope === 'fix') {
+            vscode.postMessage({ command: 'applyFix', data: { category: currentCategory, rule: item.check_id } });
+        } else if (scope === 'policy') {
+            vscode.postMessage({
+                command: 'addPolicy',
+                data: { rule: item.check_id, path: folder ? `${folder}/**` : undefined, verdict: to }
+            });
+        }
+    };
+    return select;
+}
+
+/**
+ * Shows the bulk action bar while results are selected
+ */
+function renderSelectionBar() {
+    document.getElementById('selection-bar').style.display = selection.size > 0 && !rapid ? '' : 'none';
+    document.getElementById('selection-count').textContent = `${selection.size} selected`;
+}
+
+/**
+ * Renders the collapsible header row of a group
+ */
+function createGroupRow(category, group) {
+    const collapseKey = `${category}:${group.key}`;
+
+    const tr = document.createElement('tr');
+    tr.className = 'group-header';
+    tr.innerHTML = `<td colspan="7">${group.collapsed ? '▸' : '▾'} ${escapeHtml(group.key)} (${group.count})</td>`;
+    tr.onclick = () => updateViewState({
+        collapsed: group.collapsed
+            ? viewState.collapsed.filter(k => k !== collapseKey)
+            : [...viewState.collapsed, collapseKey]
+    });
+    return tr;
+}
+
+/**
+ * Renders the metadata row shown below an expanded finding
+ */
+function createMetadataRow(item) {
+    const tr = document.createElement('tr');
+    tr.className = 'metadata-row';
+    tr.innerHTML = `<td></td><td colspan="6"><div class="metadata-scroll">${renderMetadata(item)}</div></td>`;
+    return tr;
+}
+
+/**
+ * Renders a finding of the baseline that is no longer reported
+ */
+function createResolvedRow(row) {
+    const { item, baseline: previous } = row;
+    const severity = effectiveSeverity(item);
+    const tr = document.createElement('tr');
+    tr.innerHTML = `
+        <td title="${escapeHtml(item.check_id)}">${escapeHtml(item.check_id)}</td>
+        <td title="${escapeHtml(item.extra.message)}">${escapeHtml(item.extra.message)}</td>
+        <td class="severity-${escapeHtml(severity)}">${escapeHtml(severity)}</td>
+        <td title="${escapeHtml(item.path)}">${escapeHtml(item.path)}:${Number(item.start.line)}</td>
+        <td>${CATEGORY_LABELS[previous.category]}${previous.verdict ? ` · ${escapeHtml(previous.verdict)}` : ''}</td>`;
+    return tr;
+}
+
+/**
+ * Renders a row sent by the extension: a group header, a finding or its metadata
+ */
+function createViewRow(name, row) {
+    if (row.kind === 'group') {
+        return createGroupRow(name, row);
+    }
+    if (row.kind === 'metadata') {
+        return createMetadataRow(row.item);
+    }
+    if (name === 'baselineResolved') {
+        return createResolvedRow(row);
+    }
+
+    const tr = createRow(row.item, row.category);
+    if (row.baseline) {
+        const verdict = row.baseline.verdict ? ` · ${escapeHtml(row.baseline.verdict)}` : '';
+        tr.cells[2].insertAdjacentHTML('afterbegin', `<span class="badge" title="Decision in the baseline">Baseline: ${CATEGORY_LABELS[row.baseline.category]}${verdict}</span> `);
+    }
+    return tr;
+}
+
+/**
+ * Renders a row that is not loaded yet, with the height of the row it stands for
+ */
+function createPlaceholderRow(view, index) {
+    const tr = document.createElement('tr');
+    tr.className = 'placeholder-row';
+    tr.innerHTML = '<td colspan="7">Loading…</td>';
+    if (view.tall.includes(index)) {
+        tr.style.height = `${METADATA_ROW_HEIGHT}px`;
+    }
+    return tr;
+}
+
+/**
+ * Renders an empty row standing for the rows scrolled out of view
+ */
+function createSpacerRow(height) {
+    const tr = document.createElement('tr');
+    tr.className = 'spacer-row';
+    tr.innerHTML = `<td colspan="7" style="height:${height}px"></td>`;
+    return tr;
+}
+
+/**
+ * Returns the distance of a row from the top of its table body
+ */
+function rowOffset(view, index) {
+    const tallAbove = view.tall.filter(tall => tall < index).length;
+    return index * ROW_HEIGHT + tallAbove * (METADATA_ROW_HEIGHT - ROW_HEIGHT);
+}
+
+/**
+ * Returns the index of the row at a distance from the top of its table body
+ */
+function rowAt(view, offset) {
+    let extra = 0;
+    for (const tall of view.tall) {
+        const top = tall * ROW_HEIGHT + extra;
+        if (offset < top) {
+            break;
+        }
+        if (offset < top + METADATA_ROW_HEIGHT) {
+            return tall;
+        }
+        extra += METADATA_ROW_HEIGHT - ROW_HEIGHT;
+    }
+    return Math.floor((offset - extra) / ROW_HEIGHT);
+}
+
+/**
+ * Creates the header and the empty body of a table
+ */
+function ensureTable(name) {
+    const table = document.getElementById(`${name}-table`);
+    if (table.tBodies.length > 0) {
+        return table;
+    }
+
+    const headerRow = table.createTHead().insertRow();
+    const columns = name === 'baselineResolved'
+        ? ['check_id', 'message', 'severity', 'path', 'baseline decision']
+        : ['', 'check_id', 'message', 'severity', 'path', 'lines', 'Actions'];
+    columns.forEach(text => {
+        const th = document.createElement('th');
+        th.className = `column-${text ? text.replace(/[^a-z]+/gi, '-').toLowerCase() : 'select'}`;
+        th.textContent = text;
+        headerRow.appendChild(th);
+    });
+
+    if (name !== 'baselineResolved') {
+        const selectAll = document.createElement('input');
+        selectAll.type = 'checkbox';
+        selectAll.className = 'select-all';
+        selectAll.title = 'Select all shown';
+        // Only the extension knows all shown findings, not just the loaded ones
+        selectAll.onchange = () => vscode.postMessage({ command: 'selectShown', data: { table: name, select: selectAll.checked } });
+        headerRow.cells[0].appendChild(selectAll);
+    }
+
+    table.appendChild(document.createElement('tbody'));
+    return table;
+}
+
+/**
+ * Renders the rows of a table that are in view, between spacer rows as tall
+ * as the rows above and below. Rows that are not loaded yet are requested
+ * from the extension and rendered once they arrive.
+ */
+function renderTable(name, force) {
+    const view = tables.get(name);
+    const table = ensureTable(name);
+    const countSpan = document.getElementById(`${name}-count`);
+    countSpan.textContent = view.shown === view.total ? view.total : `${view.shown} / ${view.total}`;
+    const selectAll = table.querySelector('.select-all');
+    if (selectAll) {
+        selectAll.checked = view.allSelected && view.shown > 0;
+    }
+
+    // Hidden tables, e.g. during rapid triage, have nothing in view
+    if (table.offsetParent === null) {
+        return;
+    }
+
+    const tbody = table.tBodies[0];
+    const height = rowOffset(view, view.rows);
+    const top = tbody.getBoundingClientRect().top;
+    const from = Math.max(0, -top);
+    const to = Math.min(height, window.innerHeight - top);
+    let start = 0;
+    let end = 0;
+    if (to > from) {
+        start = Math.max(0, rowAt(view, from) - OVERSCAN);
+        end = Math.min(view.rows, rowAt(view, to) + 1 + OVERSCAN);
+    }
+    if (!force && view.rendered && view.rendered.start === start && view.rendered.end === end) {
+        return;
+    }
+
+    let missing = false;
+    for (let page = Math.floor(start / PAGE_SIZE); page * PAGE_SIZE < end; page++) {
+        if (!view.pages.has(page)) {
+            missing = true;
+            requestPage(name, view, page);
+        }
+    }
+    // Keep the rows of the previous version until the new ones arrive, instead of flashing placeholders
+    if (missing && view.keepPrevious) {
+        return;
+    }
+    view.keepPrevious = false;
+    view.rendered = { start, end };
+
+    const rows = document.createDocumentFragment();
+    rows.appendChild(createSpacerRow(rowOffset(view, start)));
+    for (let index = start; index < end; index++) {
+        const page = view.pages.get(Math.floor(index / PAGE_SIZE));
+        const row = page && page[index % PAGE_SIZE];
+        rows.appendChild(row ? createViewRow(name, row) : createPlaceholderRow(view, index));
+    }
+    rows.appendChild(createSpacerRow(height - rowOffset(view, end)));
+    tbody.replaceChildren(rows);
+}
+
+/**
+ * Asks the extension for a page of rows, unless it was requested already
+ */
+function requestPage(name, view, page) {
+    if (!view.requested.has(page)) {
+        view.requested.add(page);
+        vscode.postMessage({
+            command: 'getRows',
+            data: { table: name, start: page * PAGE_SIZE, end: (page + 1) * PAGE_SIZE }
+        });
+    }
+}
+
+/**
+ * Stores a page of rows sent by the extension and renders it
+ */
+function receiveRows(data) {
+    const view = tables.get(data.table);
+    // Rows of an outdated version are requested again as needed
+    if (!view || view.version !== data.version) {
+        return;
+    }
+    view.pages.set(Math.floor(data.start / PAGE_SIZE), data.rows);
+    renderTable(data.table, true);
+}
+
+/**
+ * Takes over the table sizes, filter values and changes sent by the
+ * extension. Tables whose version changed drop their loaded rows.
+ */
+function receiveUpdate(data) {
+    const changed = data.changed || [];
+    changed.filter(change => change.from !== change.to).forEach(change => {
+        selection.delete(change.id);
+        if (rapid && change.from === 'untriaged') {
+            rapid.sent.delete(change.id);
+        }
+    });
+    if (data.reload) {
+        // The findings may be different ones altogether, e.g. after loading progress
+        selection.clear();
+        if (rapid) {
+            rapid.sent.clear();
+        }
+    }
+
+    Array.from(tables.keys()).filter(name => !data.tables[name]).forEach(name => tables.delete(name));
+    Object.entries(data.tables).forEach(([name, summary]) => {
+        const previous = tables.get(name);
+        if (previous && previous.version === summary.version) {
+            return;
+        }
+        tables.set(name, {
+            ...summary,
+            pages: new Map(),
+            requested: new Set(),
+            allSelected: false,
+            keepPrevious: !!(previous && previous.rendered),
+            rendered: null
+        });
+    });
+
+    facets = data.facets;
+    baseline = data.baseline;
+    renderFilterOptions();
+    renderAllTables(true);
+
+    if (detailsId && (data.reload || changed.some(change => change.id === detailsId))) {
+        vscode.postMessage({ command: 'getFinding', data: { id: detailsId } });
+    }
+    if (rapid) {
+        requestRapid();
+    }
+}
+
+/**
+ * Rebuilds the severity checkboxes and rule picker from the facets sent by the extension
+ */
+function renderFilterOptions() {
+    const severityContainer = document.getElementById('filter-severities');
+    severityContainer.innerHTML = '';
+    facets.severities.forEach(severity => {
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = !viewState.hiddenSeverities.includes(severity);
+        checkbox.onchange = () => updateViewState({
+            hiddenSeverities: checkbox.checked
+                ? viewState.hiddenSeverities.filter(s => s !== severity)
+                : [...viewState.hiddenSeverities, severity]
+        });
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(severity));
+        severityContainer.appendChild(label);
+    });
+
+    const rulePicker = document.getElementById('filter-rules');
+    rulePicker.innerHTML = '';
+    facets.rules.forEach(([rule, count]) => {
+        const option = document.createElement('option');
+        option.value = rule;
+        option.textContent = `${rule} (${count})`;
+        option.selected = viewState.rules.includes(rule);
+        rulePicker.appendChild(option);
+    });
+
+    // The source scan filter is only useful when several results files were merged
+    const sourcePicker = document.getElementById('filter-sources');
+    sourcePicker.innerHTML = '';
+    sourcePicker.style.display = facets.sources.length > 1 ? '' : 'none';
+    facets.sources.forEach(([source, count]) => {
+        const option = document.createElement('option');
+        option.value = source;
+        option.textContent = `${source} (${count})`;
+        option.selected = viewState.sources.includes(source);
+        sourcePicker.appendChild(option);
+    });
+
+    document.getElementById('filter-text').value = viewState.text;
+    document.getElementById('filter-include').value = viewState.include;
+    document.getElementById('filter-exclude').value = viewState.exclude;
+    document.getElementById('group-by').value = viewState.groupBy;
+    document.getElementById('sort-by').value = viewState.sortBy;
+    document.getElementById('filter-confidence').value = viewState.confidence;
+    document.getElementById('filter-stale').value = viewState.stale;
+    document.getElementById('filter-cwe').value = viewState.cwe;
+}
+
+/**
+ * Renders the rows in view of all tables, re-rendering them when forced
+ */
+function renderAllTables(force) {
+    renderSelectionBar();
+    renderBaseline();
+    tables.forEach((view, name) => renderTable(name, force));
+}
+
+/**
+ * Shows the section of the baseline comparison with a summary of the whole
+ * comparison, regardless of the filters. Its tables are rendered like the others.
+ */
+function renderBaseline() {
+    const section = document.getElementById('baseline-section');
+    section.style.display = baseline && !rapid ? '' : 'none';
+    if (!baseline) {
+        return;
+    }
+
+    document.getElementById('baseline-label').textContent = baseline.label;
+    const countLabels = (counts, label) => counts.map(([key, count]) => `${count} ${escapeHtml(label(key))}`).join(', ');
+    document.getElementById('baseline-summary').innerHTML = `
+        <strong>${baseline.newCount}</strong> new${baseline.newBySeverity.length > 0 ? ` (${countLabels(baseline.newBySeverity, severity => severity)})` : ''} ·
+        <strong>${baseline.stillCount}</strong> still present${baseline.stillByCategory.length > 0 ? ` (baseline: ${countLabels(baseline.stillByCategory, category => CATEGORY_LABELS[category])})` : ''} ·
+        <strong>${baseline.resolvedCount}</strong> resolved`;
+}
+
+/**
+ * Sends a triage message to the extension
+ */
+function triageItem(id, from, to) {
+    triageItems([id], to);
+}
+
+/**
+ * Sends a batch triage message to the extension
+ */
+function triageItems(ids, to) {
+    if (ids.length === 0) {
+        return;
+    }
+    ids.forEach(id => selection.delete(id));
+    vscode.postMessage({
+        command: 'triage',
+        data: { ids, to }
+    });
+}
+
+/**
+ * Opens the details pane for a finding
+ */
+function showDetails(item, category) {
+    detailsId = item.id;
+    details = { item, category };
+    detailsDirty = false;
+    renderDetails();
+    renderAllTables(true);
+}
+
+/**
+ * Closes the details pane
+ */
+function hideDetails() {
+    detailsId = null;
+    details = null;
+    renderDetails();
+    renderAllTables(true);
+}
+
+/**
+ * Creates a select element with an empty option and the given values
+ */
+function createSelect(id, emptyLabel, values, selected) {
+    const select = document.createElement('select');
+    select.id = id;
+    select.add(new Option(emptyLabel, ''));
+    values.forEach(value => select.add(new Option(value, value, false, value === selected)));
+    if (selected && !values.includes(selected)) {
+        select.add(new Option(selected, selected, false, true));
+    }
+    select.onchange = () => { detailsDirty = true; };
+    return select;
+}
+
+/**
+ * Renders the details pane of the current finding
+ */
+function renderDetails() {
+    const pane = document.getElementById('details-pane');
+    if (!detailsId || !details) {
+        pane.style.display = 'none';
+        document.body.classList.remove('details-open');
+        return;
+    }
+
+    const { item, category } = details;
+    const content = document.getElementById('details-content');
+
+    // Keep unsaved edits when the view is updated underneath the form
+    const previousNote = document.getElementById('details-note');
+    const keepNote = detailsDirty && previousNote ? previousNote.value : null;
+
+    content.innerHTML = `
+        <h3>${escapeHtml(item.check_id)}</h3>
+        <p><strong>${CATEGORY_LABELS[category]}</strong>${item.verdict ? ` · <span class="badge">${escapeHtml(item.verdict)}</span>` : ''}</p>
+        <p>${escapeHtml(item.extra.message)}</p>
+        <p><strong>Location:</strong> ${escapeHtml(item.path)}:${Number(item.start.line)}:${Number(item.start.col)}</p>
+        ${item.stale ? '<p><span class="badge badge-stale">stale</span> The code of this finding no longer exists in the file, it may have been fixed.</p>' : ''}
+        <p><strong>Semgrep severity:</strong> <span class="severity-${escapeHtml(item.extra.severity)}">${escapeHtml(item.extra.severity)}</span></p>
+        ${item.sources && item.sources.length > 0 ? `<p><strong>Found by:</strong> ${item.sources.map(escapeHtml).join(', ')}</p>` : ''}
+        ${renderMetadata(item)}
+        <pre class="lines-cell">${escapeHtml(item.extra.lines)}</pre>
+        ${item.extra.dataflow_trace ? `
+        <h4>Dataflow
+            <button id="details-dataflow-show" class="heading-button" title="Highlight the whole path in the editor">Highlight</button>
+            <button id="details-dataflow-clear" class="heading-button">Clear</button>
+        </h4>
+        <ol id="details-dataflow" class="details-dataflow"><li>Loading…</li></ol>` : ''}
+        <div class="details-form"></div>
+        <h4>History</h4>
+        <ul id="details-audit" class="details-audit"><li>Loading…</li></ul>`;
+
+    const form = content.querySelector('.details-form');
+
+    const severityLabel = document.createElement('label');
+    severityLabel.textContent = 'Severity override';
+    severityLabel.appendChild(createSelect('details-severity', '(Semgrep severity)', SEVERITIES, item.severityOverride));
+    form.appendChild(severityLabel);
+
+    const verdictLabel = document.createElement('label');
+    verdictLabel.textContent = 'Verdict';
+    verdictLabel.appendChild(createSelect('details-verdict', '(none)', options.verdicts, item.verdict));
+    form.appendChild(verdictLabel);
+
+    const noteLabel = document.createElement('label');
+    noteLabel.textContent = 'Justification';
+    const note = document.createElement('textarea');
+    note.id = 'details-note';
+    note.rows = 5;
+    note.placeholder = options.requireFalsePositiveNote ? 'Required for false positives' : 'Optional';
+    note.value = keepNote !== null ? keepNote : (item.note || '');
+    note.oninput = () => { detailsDirty = true; };
+    noteLabel.appendChild(note);
+    form.appendChild(noteLabel);
+
+    const buttons = document.createElement('div');
+    buttons.className = 'details-buttons';
+
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'action-button';
+    saveBtn.textContent = 'Save';
+    saveBtn.onclick = () => saveDetails(item.id);
+    buttons.appendChild(saveBtn);
+
+    TRIAGE_TARGETS.filter(to => to !== category).forEach(to => {
+        const btn = document.createElement('button');
+        btn.className = to === 'issues' ? 'action-button action-issue' : to === 'falsePositives' ? 'action-button action-fp' : '';
+        btn.textContent = CATEGORY_LABELS[to];
+        btn.onclick = () => {
+            // Save first so that the justification is there when the extension checks for it
+            saveDetails(item.id);
+            triageItems([item.id], to);
+        };
+        buttons.appendChild(btn);
+    });
+
+    if (category === 'falsePositives') {
+        const suppressBtn = document.createElement('button');
+        suppressBtn.textContent = 'Add nosemgrep Comment';
+        suppressBtn.title = 'Insert a nosemgrep comment with the justification above the finding';
+        suppressBtn.onclick = () => {
+            saveDetails(item.id);
+            vscode.postMessage({ command: 'suppress', data: { ids: [item.id] } });
+        };
+        buttons.appendChild(suppressBtn);
+    }
+
+    if (category !== 'fixed' && hasFix(item)) {
+        const previewBtn = document.createElement('button');
+        previewBtn.textContent = 'Preview Fix';
+        previewBtn.onclick = () => vscode.postMessage({ command: 'previewFix', data: { id: item.id } });
+        buttons.appendChild(previewBtn);
+
+        const fixBtn = document.createElement('button');
+        fixBtn.textContent = 'Apply Fix';
+        fixBtn.onclick = () => {
+            saveDetails(item.id);
+            vscode.postMessage({ command: 'applyFix', data: { ids: [item.id] } });
+        };
+        buttons.appendChild(fixBtn);
+    }
+    form.appendChild(buttons);
+
+    pane.style.display = '';
+    document.body.classList.add('details-open');
+
+    if (item.extra.dataflow_trace) {
+        document.getElementById('details-dataflow-show').onclick = () => vscode.postMessage({ command: 'showDataflow', data: { id: item.id } });
+        document.getElementById('details-dataflow-clear').onclick = () => vscode.postMessage({ command: 'clearDataflow' });
+        vscode.postMessage({ command: 'getDataflow', data: { id: item.id } });
+    }
+    vscode.postMessage({ command: 'getAudit', data: { id: item.id } });
+}
+
+/**
+ * Renders the steps of the taint trace of the finding shown in the details pane
+ */
+function renderDataflow(id, steps) {
+    const list = document.getElementById('details-dataflow');
+    if (!list || id !== detailsId) {
+        return;
+    }
+    if (steps.length === 0) {
+        list.innerHTML = '<li>The dataflow trace has no locations.</li>';
+        return;
+    }
+    const labels = { source: 'Source', intermediate: 'Through', sink: 'Sink' };
+    list.innerHTML = steps.map((step, index) => `
+        <li class="dataflow-${step.kind}">
+            <a href="#" data-step="${index}" title="Open this step and highlight the path">${labels[step.kind]}</a>
+            ${escapeHtml(step.path)}:${Number(step.start.line)}
+            ${step.content ? `<code>${escapeHtml(step.content)}</code>` : ''}
+        </li>`).join('');
+    list.querySelectorAll('a[data-step]').forEach(link => {
+        link.onclick = event => {
+            event.preventDefault();
+            vscode.postMessage({ command: 'showDataflow', data: { id, step: Number(link.dataset.step) } });
+        };
+    });
+}
+
+/**
+ * Renders the audit trail of the finding shown in the details pane
+ */
+function renderAudit(id, entries) {
+    const list = document.getElementById('details-audit');
+    if (!list || id !== detailsId) {
+        return;
+    }
+    if (entries.length === 0) {
+        list.innerHTML = '<li>No triage actions recorded yet.</li>';
+        return;
+    }
+    list.innerHTML = entries.slice().reverse().map(entry => `
+        <li>
+            <strong>${escapeHtml(new Date(entry.timestamp).toLocaleString())}</strong>
+            · ${escapeHtml(entry.user)} · ${escapeHtml(entry.action)}:
+            ${CATEGORY_LABELS[entry.from]} → ${CATEGORY_LABELS[entry.to]}
+            ${entry.note ? `<div class="audit-note">${escapeHtml(entry.note)}</div>` : ''}
+        </li>`).join('');
+}
+
+/**
+ * Sends the details form of a finding to the extension
+ */
+function saveDetails(id) {
+    detailsDirty = false;
+    vscode.postMessage({
+        command: 'updateFinding',
+        data: {
+            id,
+            note: document.getElementById('details-note').value,
+            verdict: document.getElementById('details-verdict').value,
+            severityOverride: document.getElementById('details-severity').value
+        }
+    });
+}
+
+/**
+ * Switches to the rapid triage mode, starting at the first shown untriaged finding
+ */
+function startRapidTriage() {
+    rapid = { index: 0, id: null, sent: new Set(), item: null, next: null, total: 0, loading: true };
+    document.getElementById('app-container').style.display = 'none';
+    document.getElementById('baseline-section').style.display = 'none';
+    document.getElementById('rapid-pane').style.display = '';
+    document.getElementById('rapid-triage').classList.add('active');
+    renderSelectionBar();
+    renderRapid();
+    requestRapid();
+    document.getElementById('rapid-pane').focus();
+}
+
+/**
+ * Returns to the tables
+ */
+function stopRapidTriage() {
+    rapid = null;
+    rapidSources.clear();
+    document.getElementById('app-container').style.display = '';
+    document.getElementById('rapid-pane').style.display = 'none';
+    document.getElementById('rapid-triage').classList.remove('active');
+    renderAllTables(true);
+}
+
+/**
+ * Asks the extension for the finding to show in the rapid triage mode. The
+ * mode stays on the current finding when the view is updated; once it is
+ * triaged, the finding that took its place is shown.
+ */
+function requestRapid() {
+    rapid.loading = true;
+    vscode.postMessage({
+        command: 'getRapid',
+        data: { index: rapid.index, id: rapid.id, exclude: Array.from(rapid.sent) }
+    });
+}
+
+/**
+ * Asks the extension for the source around a finding, unless it is loaded already
+ */
+function requestSource(item) {
+    if (item && !rapidSources.has(item.id)) {
+        rapidSources.set(item.id, null);
+        vscode.postMessage({ command: 'getSource', data: { id: item.id } });
+    }
+}
+
+/**
+ * Renders the source preview with the matched range highlighted
+ */
+function renderSource(item) {
+    const source = rapidSources.get(item.id);
+    if (!source) {
+        return '<p>Loading source…</p>';
+    }
+    if (source.error) {
+        return `<p class="rapid-error">${escapeHtml(source.error)}</p><pre class="lines-cell">${escapeHtml(item.extra.lines)}</pre>`;
+    }
+
+    const rows = source.lines.map((text, i) => {
+        const line = source.firstLine + i;
+        const inMatch = line >= item.start.line && line <= item.end.line;
+        let html = escapeHtml(text);
+        if (inMatch) {
+            const from = line === item.start.line ? item.start.col - 1 : 0;
+            const to = line === item.end.line ? item.end.col - 1 : text.length;
+            html = `${escapeHtml(text.slice(0, from))}<mark>${escapeHtml(text.slice(from, to))}</mark>${escapeHtml(text.slice(to))}`;
+        }
+        return `<span class="source-line${inMatch ? ' source-match' : ''}"><span class="line-number">${line}</span>${html}</span>`;
+    });
+    return `<div class="source-preview">${rows.join('')}</div>`;
+}
+
+/**
+ * Renders the finding shown in the rapid triage mode
+ */
+function renderRapid() {
+    const pane = document.getElementById('rapid-pane');
+    const { item, total } = rapid;
+
+    const keys = `
+        <p class="rapid-keys">
+            <kbd>I</kbd> Issue · <kbd>F</kbd> False Positive · <kbd>S</kbd>/<kbd>→</kbd> Skip · <kbd>←</kbd> Back ·
+            <kbd>O</kbd> Open in Editor · <kbd>U</kbd> Undo · <kbd>Esc</kbd> Exit
+        </p>`;
+
+    if (!item && rapid.loading) {
+        pane.innerHTML = `<h2>Rapid Triage</h2>${keys}<p>Loading…</p>`;
+        return;
+    }
+    if (!item) {
+        pane.innerHTML = `
+            <h2>Rapid Triage</h2>
+            <p>${total > 0 ? `No more findings after this point, ${total} skipped findings remain.` : 'No untriaged findings left.'}</p>
+            ${total > 0 ? '<button id="rapid-restart" class="action-button">Start Over</button>' : ''}
+            <button id="rapid-exit">Back to Tables</button>`;
+        const restart = document.getElementById('rapid-restart');
+        if (restart) {
+            restart.onclick = () => { rapid.index = 0; requestRapid(); };
+        }
+        document.getElementById('rapid-exit').onclick = stopRapidTriage;
+        return;
+    }
+
+    requestSource(item);
+    requestSource(rapid.next); // Preload the next finding
+
+    const severity = effectiveSeverity(item);
+    pane.innerHTML = `
+        <h2>Rapid Triage <span class="rapid-progress">${rapid.index + 1} / ${total}</span></h2>
+        ${keys}
+        <h3>${escapeHtml(item.check_id)}</h3>
+        <p>
+            <span class="severity-${escapeHtml(severity)}">${escapeHtml(severity)}</span>
+            · ${escapeHtml(item.path)}:${Number(item.start.line)}:${Number(item.start.col)}
+            ${item.verdict ? ` · <span class="badge">${escapeHtml(item.verdict)}</span>` : ''}
+            ${item.stale ? ' · <span class="badge badge-stale" title="The code of this finding no longer exists in the file">stale</span>' : ''}
+        </p>
+        <p>${escapeHtml(item.extra.message)}</p>
+        ${item.note ? `<p class="audit-note">${escapeHtml(item.note)}</p>` : ''}
+        ${renderMetadata(item)}
+        ${renderSource(item)}`;
+}
+
+/**
+ * Triages the finding shown in the rapid triage mode and moves on
+ */
+function rapidTriage(item, to) {
+    rapid.sent.add(item.id);
+    rapid.id = null;
+    rapid.item = null;
+    triageItems([item.id], to);
+    requestRapid();
+}
+
+/**
+ * Moves the rapid triage mode to another position in the queue
+ */
+function moveRapid(index) {
+    rapid.index = Math.max(0, index);
+    rapid.id = null;
+    rapid.item = null;
+    requestRapid();
+}
+
+/**
+ * Handles the single-key shortcuts of the rapid triage mode
+ */
+function handleRapidKey(event) {
+    if (event.ctrlKey || event.metaKey || event.altKey || ['INPUT', 'TEXTAREA', 'SELECT'].includes(event.target.tagName)) {
+        return;
+    }
+    // No finding while the next one is loading, so that keys are not applied twice
+    const { item } = rapid;
+
+    switch (event.key) {
+        case 'Escape':
+            stopRapidTriage();
+            break;
+        case 'i':
+        case 'I':
+            if (item) {
+                rapidTriage(item, 'issues');
+            }
+            break;
+        case 'f':
+        case 'F':
+            if (item) {
+                rapidTriage(item, 'falsePositives');
+            }
+            break;
+        case 's':
+        case 'S':
+        case 'ArrowRight':
+            if (item) {
+                moveRapid(rapid.index + 1);
+            }
+            break;
+        case 'ArrowLeft':
+            moveRapid(rapid.index - 1);
+            break;
+        case 'o':
+        case 'O':
+            if (item) {
+                vscode.postMessage({
+                    command: 'goTo',
+                    data: { path: item.path, line: item.start.line, col: item.start.col, preserveFocus: true }
+                });
+            }
+            break;
+        case 'u':
+        case 'U':
+            vscode.postMessage({ command: 'undo' });
+            break;
+        default:
+            return;
+    }
+    event.preventDefault();
+}
+
+/**
+ * Enables the undo and redo buttons when there is something to undo or redo
+ */
+function renderHistoryButtons(history) {
+    const undo = document.getElementById('undo');
+    const redo = document.getElementById('redo');
+    undo.disabled = !history.undo;
+    undo.title = history.undo ? `Undo ${history.undo}` : 'Nothing to undo';
+    redo.disabled = !history.redo;
+    redo.title = history.redo ? `Redo ${history.redo}` : 'Nothing to redo';
+}
+
+// --- Event Listeners and Handlers ---
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.command) {
+        case 'updateView':
+            // The tables changed (initial load, triage, filters, or progress load)
+            receiveUpdate(message.data);
+            break;
+        case 'rows':
+            receiveRows(message.data);
+            break;
+        case 'shownIds':
+            message.data.ids.forEach(id => message.data.select ? selection.add(id) : selection.delete(id));
+            if (tables.has(message.data.table)) {
+                tables.get(message.data.table).allSelected = message.data.select;
+            }
+            renderAllTables(true);
+            break;
+        case 'finding':
+            if (message.data.id === detailsId) {
+                if (message.data.item) {
+                    details = { item: message.data.item, category: message.data.category };
+                    renderDetails();
+                } else {
+                    hideDetails();
+                }
+            }
+            break;
+        case 'rapid':
+            if (rapid) {
+                Object.assign(rapid, message.data, { id: message.data.item ? message.data.item.id : null, loading: false });
+                renderRapid();
+            }
+            break;
+        case 'setSession':
+            sourcePath = message.data.sourcePath;
+            persistState();
+            break;
+        case 'setHistory':
+            renderHistoryButtons(message.data);
+            break;
+        case 'audit':
+            renderAudit(message.data.id, message.data.entries);
+            break;
+        case 'dataflow':
+            renderDataflow(message.data.id, message.data.steps);
+            break;
+        case 'source':
+            if (rapid) {
+                rapidSources.set(message.data.id, message.data);
+                renderRapid();
+            }
+            break;
+        case 'triageCancelled':
+            if (rapid) {
+                // Go back to the finding whose justification prompt was dismissed
+                message.data.ids.forEach(id => rapid.sent.delete(id));
+                rapid.id = message.data.ids[0];
+                requestRapid();
+            }
+            break;
+        case 'setOptions':
+            options = message.data;
+            renderDetails();
+            break;
+    }
+});
+
+document.getElementById('filter-text').addEventListener('input', event => {
+    updateViewState({ text: event.target.value });
+});
+
+document.getElementById('filter-rules').addEventListener('change', event => {
+    updateViewState({ rules: Array.from(event.target.selectedOptions).map(option => option.value) });
+});
+
+document.getElementById('filter-sources').addEventListener('change', event => {
+    updateViewState({ sources: Array.from(event.target.selectedOptions).map(option => option.value) });
+});
+
+document.getElementById('filter-confidence').addEventListener('change', event => {
+    updateViewState({ confidence: event.target.value });
+});
+
+document.getElementById('filter-stale').addEventListener('change', event => {
+    updateViewState({ stale: event.target.value });
+});
+
+document.getElementById('filter-cwe').addEventListener('change', event => {
+    updateViewState({ cwe: event.target.value });
+});
+
+document.getElementById('sort-by').addEventListener('change', event => {
+    updateViewState({ sortBy: event.target.value });
+});
+
+// Reference links of the rule metadata are opened in the browser by the extension
+document.addEventListener('click', event => {
+    const link = event.target.closest && event.target.closest('a[data-url]');
+    if (link) {
+        event.preventDefault();
+        vscode.postMessage({ command: 'openExternal', data: { url: link.dataset.url } });
+    }
+});
+
+document.getElementById('filter-include').addEventListener('change', event => {
+    updateViewState({ include: event.target.value });
+});
+
+document.getElementById('filter-exclude').addEventListener('change', event => {
+    updateViewState({ exclude: event.target.value });
+});
+
+document.getElementById('group-by').addEventListener('change', event => {
+    updateViewState({ groupBy: event.target.value, collapsed: [] });
+});
+
+document.getElementById('clear-filters').addEventListener('click', () => {
+    updateViewState({ ...defaultViewState, groupBy: viewState.groupBy, sortBy: viewState.sortBy });
+    renderFilterOptions();
+});
+
+document.getElementById('details-close').addEventListener('click', hideDetails);
+
+document.getElementById('export-report').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'exportReport' // Request extension to prompt for a format and write the report
+    });
+});
+
+document.getElementById('suppress-all').addEventListener('click', () => {
+    vscode.postMessage({ command: 'suppress' });
+});
+
+document.getElementById('rapid-triage').addEventListener('click', () => {
+    if (rapid) {
+        stopRapidTriage();
+    } else {
+        startRapidTriage();
+    }
+});
+
+document.addEventListener('keydown', event => {
+    if (rapid) {
+        handleRapidKey(event);
+    }
+});
+
+document.getElementById('undo').addEventListener('click', () => {
+    vscode.postMessage({ command: 'undo' });
+});
+
+document.getElementById('redo').addEventListener('click', () => {
+    vscode.postMessage({ command: 'redo' });
+});
+
+document.getElementById('bulk-issue').addEventListener('click', () => {
+    triageItems(Array.from(selection), 'issues');
+});
+
+document.getElementById('bulk-fp').addEventListener('click', () => {
+    triageItems(Array.from(selection), 'falsePositives');
+});
+
+document.getElementById('bulk-untriaged').addEventListener('click', () => {
+    triageItems(Array.from(selection), 'untriaged');
+});
+
+document.getElementById('bulk-fix').addEventListener('click', () => {
+    vscode.postMessage({ command: 'applyFix', data: { ids: Array.from(selection) } });
+});
+
+document.getElementById('bulk-clear').addEventListener('click', () => {
+    selection.clear();
+    tables.forEach(view => view.allSelected = false);
+    renderAllTables(true);
+});
+
+document.getElementById('save-progress').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'save' // Request extension to save its current state
+    });
+});
+
+document.getElementById('compare-baseline').addEventListener('click', () => {
+    vscode.postMessage({ command: 'compareBaseline' });
+});
+
+document.getElementById('clear-baseline').addEventListener('click', () => {
+    vscode.postMessage({ command: 'clearBaseline' });
+});
+
+document.getElementById('add-results').addEventListener('click', () => {
+    vscode.postMessage({ command: 'addResults' });
+});
+
+document.getElementById('load-progress').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'load' // Request extension to prompt user and load file
+    });
+});
+
+document.getElementById('apply-previous').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'applyPrevious' // Request extension to carry over an old progress file
+    });
+});
+
+document.getElementById('save-shared').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'saveShared' // Request extension to write the shared triage file
+    });
+});
+
+document.getElementById('load-shared').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'loadShared' // Request extension to apply a shared triage file
+    });
+});
+
+document.getElementById('export-sarif').addEventListener('click', () => {
+    vscode.postMessage({
+        command: 'exportSarif' // Request extension to write the SARIF log
+    });
+});
+
+// Render the rows that scroll into view, at most once per frame
+let renderScheduled = false;
+function scheduleRender() {
+    if (!renderScheduled) {
+        renderScheduled = true;
+        requestAnimationFrame(() => {
+            renderScheduled = false;
+            tables.forEach((view, name) => renderTable(name, false));
+        });
+    }
+}
+window.addEventListener('scroll', scheduleRender);
+window.addEventListener('resize', scheduleRender);
+
+// Inform the extension that the webview is ready to receive initial data
+vscode.postMessage({ command: 'initialized', data: { viewOptions: viewState } });
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { DataflowStep } from './dataflow';
+
+const STEP_LABELS: Record<DataflowStep['kind'], string> = {
+    source: 'taint source',
+    intermediate: 'propagates',
+    sink: 'taint sink'
+};
+
+/**
+ * Highlights the steps of a taint trace in all visible editors, numbered in
+ * the order the data flows.
+ */
+export class DataflowDecorations implements vscode.Disposable {
+    private readonly _types: Record<DataflowStep['kind'], vscode.TextEditorDecorationType>;
+    private _steps: { uri: string, range: vscode.Range, kind: DataflowStep['kind'], label: string }[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const type = (background: string, ruler: string) => vscode.window.createTextEditorDecorationType({
+            backgroundColor: new vscode.ThemeColor(background),
+            overviewRulerColor: new vscode.ThemeColor(ruler),
+            overviewRulerLane: vscode.OverviewRulerLane.Center,
+            after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), margin: '0 0 0 1em' }
+        });
+        this._types = {
+            source: type('diffEditor.insertedTextBackground', 'editorOverviewRuler.addedForeground'),
+            intermediate: type('editor.findMatchHighlightBackground', 'editorOverviewRuler.findMatchForeground'),
+            sink: type('diffEditor.removedTextBackground', 'editorOverviewRuler.errorForeground')
+        };
+        this._disposables.push(
+            ...Object.values(this._types),
+            vscode.window.onDidChangeVisibleTextEditors(() => this._render())
+        );
+    }
+
+    /**
+     * Highlights the steps of a trace, replacing the previous one.
+     */
+    public show(steps: { uri: vscode.Uri, step: DataflowStep }[]) {
+        this._steps = steps.map(({ uri, step }, index) => ({
+            uri: uri.toString(),
+            range: new vscode.Range(
+                Math.max(0, step.start.line - 1), Math.max(0, step.start.col - 1),
+                Math.max(0, step.end.line - 1), Math.max(0, step.end.col - 1)
+            ),
+            kind: step.kind,
+            label: `${index + 1}. ${STEP_LABELS[step.kind]}`
+        }));
+        this._render();
+    }
+
+    /**
+     * Removes the highlighting.
+     */
+    public clear() {
+        this.show([]);
+    }
+
+    private _render() {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const steps = this._steps.filter(step => step.uri === editor.document.uri.toString());
+            for (const kind of Object.keys(this._types) as DataflowStep['kind'][]) {
+                editor.setDecorations(this._types[kind], steps
+                    .filter(step => step.kind === kind)
+                    .map(step => ({
+                        range: step.range,
+                        hoverMessage: `Dataflow step ${step.label}`,
+                        renderOptions: { after: { contentText: `← ${step.label}` } }
+                    })));
+            }
+        }
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+}
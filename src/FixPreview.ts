@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Provides the fixed versions of files shown on the right side of the
+ * autofix preview diff.
+ */
+export class FixPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    public static readonly scheme = 'semgrep-fix';
+
+    // Fixed contents by preview URI
+    private static readonly _contents = new Map<string, string>();
+    private static readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange = FixPreview._onDidChange.event;
+
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this._disposables.push(vscode.workspace.registerTextDocumentContentProvider(FixPreview.scheme, this));
+    }
+
+    /**
+     * Opens a diff of a file against its fixed version.
+     */
+    public static async show(file: vscode.Uri, fixed: string, title: string) {
+        const uri = vscode.Uri.from({ scheme: FixPreview.scheme, path: file.path, query: file.toString() });
+        FixPreview._contents.set(uri.toString(), fixed);
+        FixPreview._onDidChange.fire(uri);
+        await vscode.commands.executeCommand('vscode.diff', file, uri, `${path.basename(file.fsPath)} ↔ ${title}`, { preview: true });
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return FixPreview._contents.get(uri.toString()) ?? '';
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+        FixPreview._contents.clear();
+    }
+}
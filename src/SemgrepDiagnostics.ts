@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { ResultsChange, SemgrepResultsPanel } from './SemgrepResultsPanel';
+import { hasFix } from './autofix';
+import { CATEGORY_LABELS, SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, effectiveSeverity } from './types';
+
+/**
+ * Maps Semgrep severities to diagnostic severities for untriaged results.
+ */
+const SEVERITY_MAP: { [severity: string]: vscode.DiagnosticSeverity } = {
+    ERROR: vscode.DiagnosticSeverity.Error,
+    WARNING: vscode.DiagnosticSeverity.Warning,
+    INFO: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Publishes the triage results as editor diagnostics and offers
+ * CodeLens triage actions on every finding line.
+ */
+export class SemgrepDiagnostics implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _collection = vscode.languages.createDiagnosticCollection('semgrep');
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private _disposables: vscode.Disposable[] = [];
+    // Findings per document URI, used to build the CodeLenses
+    private _findings = new Map<string, { item: SemgrepResult, category: TriageCategory }[]>();
+
+    constructor() {
+        this._disposables.push(
+            this._collection,
+            this._onDidChangeCodeLenses,
+            SemgrepResultsPanel.onDidChangeResults(change => this._update(change)),
+            vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this)
+        );
+    }
+
+    /**
+     * Updates the diagnostics of the documents with changed findings, or
+     * rebuilds all of them when the change isn't known.
+     */
+    private _update({ panel, changes }: ResultsChange) {
+        if (!panel || !changes) {
+            this._collection.clear();
+            this._findings.clear();
+        }
+
+        if (panel) {
+            const changed = changes && new Set(changes.map(change => change.id));
+            const uris = new Set<string>();
+            for (const category of TRIAGE_CATEGORIES) {
+                for (const item of panel.results[category]) {
+                    if (changed && !changed.has(item.id)) {
+                        continue;
+                    }
+                    // Triage doesn't move findings, so a changed one stays in its document
+                    const uri = vscode.Uri.file(panel.resolvePath(item.path)).toString();
+                    let findings = this._findings.get(uri) ?? [];
+                    if (changed) {
+                        findings = findings.filter(f => f.item.id !== item.id);
+                    }
+                    // Fixed findings are no longer in the code, stale ones point to code that no longer exists
+                    if (category !== 'fixed' && !item.stale) {
+                        findings.push({ item, category });
+                    }
+                    this._findings.set(uri, findings);
+                    uris.add(uri);
+                }
+            }
+
+            for (const uri of uris) {
+                const findings = this._findings.get(uri)!;
+                if (findings.length === 0) {
+                    this._findings.delete(uri);
+                    this._collection.delete(vscode.Uri.parse(uri));
+                } else {
+                    this._collection.set(vscode.Uri.parse(uri), findings.map(f => createDiagnostic(f.item, f.category)));
+                }
+            }
+        }
+
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    /**
+     * Offers triage actions above every finding in the document.
+     */
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const { item, category } of this._findings.get(document.uri.toString()) ?? []) {
+            const range = toRange(item);
+
+            lenses.push(new vscode.CodeLens(range, {
+                title: `Semgrep: ${item.check_id} (${CATEGORY_LABELS[category]})`,
+                command: ''
+            }));
+            if (category !== 'issues') {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Mark as Issue',
+                    command: 'semgrep-triage.markIssue',
+                    arguments: [item.id]
+                }));
+            }
+            if (category !== 'falsePositives') {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Mark as False Positive',
+                    command: 'semgrep-triage.markFalsePositive',
+                    arguments: [item.id]
+                }));
+            }
+            if (category === 'falsePositives') {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Add nosemgrep Comment',
+                    command: 'semgrep-triage.addSuppression',
+                    arguments: [item.id]
+                }));
+            }
+            if (hasFix(item)) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Preview Fix',
+                    command: 'semgrep-triage.previewFix',
+                    arguments: [item.id]
+                }));
+            }
+            if (item.extra.dataflow_trace) {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Show Dataflow',
+                    command: 'semgrep-triage.showDataflow',
+                    arguments: [item.id]
+                }));
+            }
+            if (category !== 'untriaged') {
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Reset',
+                    command: 'semgrep-triage.resetTriage',
+                    arguments: [item.id]
+                }));
+            }
+        }
+
+        return lenses;
+    }
+
+    /**
+     * Removes all diagnostics and listeners.
+     */
+    public dispose() {
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) {
+                x.dispose();
+            }
+        }
+    }
+}
+
+/**
+ * Creates the diagnostic for a finding. Confirmed issues are always errors,
+ * false positives are faded out hints and untriaged findings keep the
+ * Semgrep severity.
+ */
+function createDiagnostic(item: SemgrepResult, category: TriageCategory): vscode.Diagnostic {
+    let severity = SEVERITY_MAP[effectiveSeverity(item)] ?? vscode.DiagnosticSeverity.Warning;
+    if (category === 'issues') {
+        severity = vscode.DiagnosticSeverity.Error;
+    } else if (category === 'falsePositives') {
+        severity = vscode.DiagnosticSeverity.Hint;
+    }
+
+    const diagnostic = new vscode.Diagnostic(
+        toRange(item),
+        `[${item.verdict || CATEGORY_LABELS[category]}] ${item.extra.message}`,
+        severity
+    );
+    diagnostic.source = 'Semgrep';
+    diagnostic.code = item.check_id;
+    if (category === 'falsePositives') {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+    }
+    return diagnostic;
+}
+
+/**
+ * Converts the 1-based Semgrep location into a 0-based editor range.
+ */
+function toRange(item: SemgrepResult): vscode.Range {
+    const start = new vscode.Position(Math.max(0, item.start.line - 1), Math.max(0, item.start.col - 1));
+    const end = new vscode.Position(Math.max(0, item.end.line - 1), Math.max(0, item.end.col - 1));
+    return new vscode.Range(start, end.isBefore(start) ? start : end);
+}
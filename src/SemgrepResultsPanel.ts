@@ -1,26 +1,54 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-
-
+import { existsSync } from 'fs';
+import { AuditEntry, SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults, effectiveSeverity } from './types';
+import { buildSarifLog, isSarifLog } from './sarif';
+import { applyPreviousDecisions, assignFingerprintIds } from './fingerprint';
+import { AutoTriagePolicy, addAutoTriagePolicy, applyAutoTriagePolicies, getAutoTriagePolicies } from './autoTriage';
+import { ProgressFile, ProgressFormatError, ProgressSource, createProgressFile, hashFile, parseProgressFile } from './progress';
+import { SessionStore } from './SessionStore';
+import { FindingState, TriageChange, TriageHistory, applyChanges, diffSnapshots, snapshotResults } from './TriageHistory';
+import { getAuditUser } from './auditUser';
+import { REPORT_EXTENSIONS, ReportFormat, buildReport } from './report';
+import { mergeResults, readResultsFile } from './resultsFile';
+import { BaselineComparison, compareWithBaseline } from './baseline';
+import { withNormalizedMetadata } from './metadata';
+import { buildSuppressionLines, getCommentSyntax, hasSuppression, shiftResultLines } from './suppression';
+import { applyFix, fixedText, hasFix, matchesReportedCode } from './autofix';
+import { FixPreview } from './FixPreview';
+import { dataflowSteps } from './dataflow';
+import { DataflowDecorations } from './DataflowDecorations';
+import { addPathMapping, candidatePaths, commonDirectory, getPathMappings } from './pathMapping';
+import { locateFindings, moveFinding } from './staleness';
+import { FindingDetails, updateFindingDetails } from './findingDetails';
+import { TriageStore, applyTriageStore, buildTriageStore } from './triageStore';
+import { getSharedTriageUri, readTriageStore, writeTriageStore } from './sharedTriage';
+import { DEFAULT_VIEW_OPTIONS, ViewEntry, ViewOptions, ViewRow, buildFacets, buildRows, filterEntries, parseViewOptions } from './findingsView';
+import { normalizePath } from './glob';
 
 /**
- * Defines the structure for a result item.
+ * Rows of a table with the current view options.
  */
-interface SemgrepResult {
-    check_id: string;
-    path: string;
-    start: { line: number; col: number; };
-    end: { line: number; col: number; };
-    extra: {
-        message: string;
-        severity: string;
-        lines: string;
-    };
-    // Unique ID for internal tracking in the extension/webview
-    id: string; 
+interface TableView {
+    // Findings in the table, regardless of the filters
+    total: number;
+    // Findings that pass the filters, in display order
+    shown: ViewEntry[];
+    rows: ViewRow[];
+    // Indexes of the expanded metadata rows, which are taller
+    tall: number[];
 }
 
+/**
+ * A change of the panel's triage state, `panel` being `undefined` once the
+ * panel is closed. `changes` lists the findings whose triage changed when
+ * nothing else did; without it, anything may have changed.
+ */
+export interface ResultsChange {
+    panel: SemgrepResultsPanel | undefined;
+    changes?: TriageChange[];
+}
 
 /**
  * Manages the Semgrep Triage Webview Panel.
@@ -29,69 +57,664 @@ export class SemgrepResultsPanel {
     public static currentPanel: SemgrepResultsPanel | undefined;
     public static readonly viewType = 'semgrepResults';
 
+    private static readonly _onDidChangeResults = new vscode.EventEmitter<ResultsChange>();
+    /**
+     * Fires whenever the triage state changes, or when the panel is closed.
+     */
+    public static readonly onDidChangeResults = SemgrepResultsPanel._onDidChangeResults.event;
+
+    private static readonly _autosaveDelay = 500;
+    // Files changed on disk are checked for stale findings once they settle
+    private static readonly _stalenessDelay = 500;
+    // Lines shown above and below a finding in the rapid triage preview
+    private static readonly _previewContextLines = 5;
+    // Most rows sent to the webview at once, it requests the rows it shows
+    private static readonly _maxRowsPerRequest = 500;
+    private static readonly _baselineTables = ['baselineNew', 'baselineStill', 'baselineResolved'];
+
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
+    private readonly _store: SessionStore;
     private _disposables: vscode.Disposable[] = [];
-    private _results: {
-        untriaged: SemgrepResult[],
-        issues: SemgrepResult[],
-        falsePositives: SemgrepResult[]
-    };
-    private _rootPath: string; // Used to normalize paths
+    private _results: TriageResults;
+    private _filePath: string; // Results file the session was started from
+    private _rootPath: string; // First workspace folder, or the folder of the results file
+    private _resolvedPaths = new Map<string, string>(); // Local path of each result path
+    private _missingFiles = 0; // Result files last reported as missing
+    private _source: Promise<ProgressSource | null>; // Results file recorded in saved progress
+    private _autosaveTimer: NodeJS.Timeout | undefined;
+    private _stalenessTimer: NodeJS.Timeout | undefined;
+    private _changedFiles = new Set<string>(); // Files changed on disk since the last staleness check
+    private _stalenessCheck: Promise<void> = Promise.resolve(); // Checks run one after the other
+    private _history = new TriageHistory();
+    private _audit: AuditEntry[] = [];
+    private _restored: Promise<void>; // Resolves once the autosaved session is restored
+    private _baseline: { label: string, comparison: BaselineComparison } | undefined;
+    private readonly _dataflow = new DataflowDecorations(); // Highlighted taint trace
+    private _viewOptions: ViewOptions = DEFAULT_VIEW_OPTIONS; // Filters, sorting and grouping of the webview
+    private _tables = new Map<string, TableView>(); // Rows of each table, built on demand
+    private _tableVersions = new Map<string, number>(); // Increased whenever the rows of a table change
 
     /**
-     * Initializes the panel with results.
+     * Initializes the panel with results. The autosaved state of the results
+     * file is restored; when reviving after a reload it replaces the results.
      */
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, results: any[], filePath: string) {
+    private constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext, results: any[], filePath: string, revived = false) {
         this._panel = panel;
-        this._extensionUri = extensionUri;
+        this._extensionUri = context.extensionUri;
+        this._store = new SessionStore(context);
+        this._filePath = filePath;
+        this._disposables.push(this._dataflow);
 
         // Determine the project root to make paths relative
         this._rootPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || path.dirname(filePath);
 
-        // Map and prepare results, adding a unique ID for tracking
+        // Hash the results file so that saved progress can be traced back to it
+        this._source = filePath
+            ? hashFile(filePath).then(sha256 => ({ path: filePath, sha256 }), () => null)
+            : Promise.resolve(null);
+
+        // Map and prepare results, adding a stable fingerprint ID for tracking
         this._results = {
-            untriaged: results.map((r, index) => ({ ...r, id: `item-${index}` })),
+            untriaged: assignFingerprintIds(results.map(withNormalizedMetadata)),
             issues: [],
-            falsePositives: []
+            falsePositives: [],
+            fixed: []
         };
-        
+
         // Set the webview's initial html content
         this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
 
         // Listen for when the panel is disposed
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+        // Keep the verdict options in the webview up to date
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('semgrepTriage')) {
+                this._sendOptions();
+            }
+            if (e.affectsConfiguration('semgrepTriage.pathMappings')) {
+                this._remapPaths();
+            }
+        }, null, this._disposables);
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this._remapPaths(), null, this._disposables);
+
+        // Relocate the findings of files changed on disk, e.g. by edits or a checkout
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const onFileChanged = (uri: vscode.Uri) => this._scheduleStalenessCheck(uri.fsPath);
+        watcher.onDidChange(onFileChanged, null, this._disposables);
+        watcher.onDidCreate(onFileChanged, null, this._disposables);
+        watcher.onDidDelete(onFileChanged, null, this._disposables);
+        this._disposables.push(watcher, new vscode.Disposable(() => clearTimeout(this._stalenessTimer)));
+
         // Handle messages from the webview
         this._panel.webview.onDidReceiveMessage(
             message => {
                 switch (message.command) {
                     case 'initialized':
+                        this._viewOptions = parseViewOptions(message.data?.viewOptions);
                         this._sendInitialData();
                         return;
+                    case 'setViewOptions':
+                        this._viewOptions = parseViewOptions(message.data);
+                        this._refreshView();
+                        return;
+                    case 'getRows':
+                        this._sendRows(message.data.table, message.data.start, message.data.end);
+                        return;
+                    case 'selectShown':
+                        this._sendShownIds(message.data.table, message.data.select);
+                        return;
+                    case 'getFinding':
+                        this._sendFinding(message.data.id);
+                        return;
+                    case 'getRapid':
+                        this._sendRapid(message.data);
+                        return;
+                    case 'triageScope':
+                        this.triage(this._scopeIds(message.data), message.data.to);
+                        return;
                     case 'triage':
                         this._handleTriage(message.data);
                         return;
                     case 'goTo':
-                        this._goToLocation(message.data);
+                        this.goToLocation(message.data);
                         return;
                     case 'save':
-                        this._saveProgress(message.data);
+                        this._saveProgress();
                         return;
                     case 'load':
                         this._loadProgress();
                         return;
+                    case 'applyPrevious':
+                        this._applyPreviousTriage();
+                        return;
+                    case 'saveShared':
+                        this.saveSharedTriage();
+                        return;
+                    case 'loadShared':
+                        this.loadSharedTriage();
+                        return;
+                    case 'exportSarif':
+                        this._exportSarif();
+                        return;
+                    case 'exportReport':
+                        this.exportReport();
+                        return;
+                    case 'addPolicy':
+                        this._addPolicy(message.data);
+                        return;
+                    case 'updateFinding':
+                        this._updateFinding(message.data);
+                        return;
+                    case 'undo':
+                        this.undo();
+                        return;
+                    case 'redo':
+                        this.redo();
+                        return;
+                    case 'getAudit':
+                        this._sendAudit(message.data.id);
+                        return;
+                    case 'openExternal':
+                        this._openExternal(message.data.url);
+                        return;
+                    case 'compareBaseline':
+                        this.compareWithBaseline();
+                        return;
+                    case 'clearBaseline':
+                        this._baseline = undefined;
+                        this._refreshView();
+                        return;
+                    case 'addResults':
+                        this.addResultsFiles();
+                        return;
+                    case 'getSource':
+                        this._sendSource(message.data.id);
+                        return;
+                    case 'suppress':
+                        this.addSuppressions(message.data?.ids);
+                        return;
+                    case 'previewFix':
+                        this.previewFix(message.data.id);
+                        return;
+                    case 'applyFix':
+                        this.applyFixes(message.data.ids ?? this._scopeIds(message.data));
+                        return;
+                    case 'getDataflow':
+                        this._sendDataflow(message.data.id);
+                        return;
+                    case 'showDataflow':
+                        this.showDataflow(message.data.id, message.data.step);
+                        return;
+                    case 'clearDataflow':
+                        this._dataflow.clear();
+                        return;
                 }
             },
             null,
             this._disposables
         );
+
+        SemgrepResultsPanel._onDidChangeResults.fire({ panel: this });
+
+        this._restored = this._restoreSession(revived);
+    }
+
+    /**
+     * Restores the autosaved state of the results file and applies the
+     * auto-triage policies to whatever is left untriaged. A session without
+     * autosaved state is saved right away, so that it survives a reload.
+     */
+    private async _restoreSession(revived: boolean) {
+        // The empty view starts empty, unless it is restored after a reload
+        const saved = this._filePath || revived ? await this._store.load(this._filePath) : undefined;
+        if (saved) {
+            const source = await this._source;
+            this._audit = saved.audit;
+            if (revived || !source || saved.source?.sha256 === source.sha256) {
+                this._results = saved.results;
+            } else {
+                // The results file changed since, e.g. a re-scan written to the same path
+                const before = snapshotResults(this._results);
+                const { applied, unmatched } = applyPreviousDecisions(this._results, saved.results);
+                this._recordOperation('restore previous triage', before, false);
+                vscode.window.showInformationMessage(
+                    `Restored ${applied} triage decisions from the previous session` +
+                    (unmatched.length > 0 ? `, ${unmatched.length} no longer match any finding.` : '.')
+                );
+            }
+        } else if (revived && this._filePath) {
+            // Not saved yet, e.g. reloaded before the first save: read the results file again
+            try {
+                const results = await readResultsFile(vscode.Uri.file(this._filePath));
+                this._results.untriaged = assignFingerprintIds(results.map(withNormalizedMetadata));
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Failed to read ${path.basename(this._filePath)}: ${e.message}`);
+            }
+        }
+
+        // Triage findings covered by the persisted auto-triage policies
+        const before = snapshotResults(this._results);
+        const autoTriaged = applyAutoTriagePolicies(this._results, getAutoTriagePolicies());
+        this._recordOperation('policy', before, false);
+        if (autoTriaged > 0) {
+            vscode.window.showInformationMessage(`Auto-triage policies triaged ${autoTriaged} findings.`);
+        }
+
+        if (saved || revived || autoTriaged > 0) {
+            this._updateView();
+        } else if (this._filePath) {
+            this._scheduleAutosave();
+        }
+        this._checkMissingFiles();
+        this._checkStaleness();
+    }
+
+    /**
+     * Current triage state.
+     */
+    public get results(): TriageResults {
+        return this._results;
+    }
+
+    /**
+     * Resolves a result path to a local file: the path rewritten by the
+     * `semgrepTriage.pathMappings` or as is, relative to any workspace folder
+     * or to the results file. The first existing file wins.
+     */
+    public resolvePath(resultPath: string): string {
+        let resolved = this._resolvedPaths.get(resultPath);
+        if (resolved === undefined) {
+            const candidates = candidatePaths(resultPath, getPathMappings(), this._searchRoots());
+            resolved = candidates.find(candidate => existsSync(candidate)) ?? candidates[0];
+            this._resolvedPaths.set(resultPath, resolved);
+        }
+        return resolved;
+    }
+
+    /**
+     * Folders relative result paths are resolved against, in order.
+     */
+    private _searchRoots(): { name: string, path: string }[] {
+        const roots = (vscode.workspace.workspaceFolders ?? []).map(folder => ({ name: folder.name, path: folder.uri.fsPath }));
+        if (this._filePath) {
+            roots.push({ name: '', path: path.dirname(this._filePath) });
+        }
+        return roots.length > 0 ? roots : [{ name: '', path: this._rootPath }];
+    }
+
+    /**
+     * Resolves all paths again after the path mappings or workspace folders changed.
+     */
+    private _remapPaths() {
+        this._resolvedPaths.clear();
+        this._updateView();
+        this._checkMissingFiles();
+        this._checkStaleness();
+    }
+
+    /**
+     * Warns when findings point to files that do not exist locally, e.g.
+     * because the scan ran in a CI container, and offers to add a path mapping.
+     */
+    private async _checkMissingFiles() {
+        const items = TRIAGE_CATEGORIES.flatMap(category => this._results[category]);
+        const missing = Array.from(new Set(items.map(item => item.path))).filter(p => !existsSync(this.resolvePath(p)));
+        const hadMissing = this._missingFiles > 0;
+        this._missingFiles = missing.length;
+        if (missing.length === 0) {
+            if (hadMissing) {
+                vscode.window.showInformationMessage('All findings now point to local files.');
+            }
+            return;
+        }
+
+        const missingPaths = new Set(missing);
+        const findings = items.filter(item => missingPaths.has(item.path)).length;
+        const choice = await vscode.window.showWarningMessage(
+            `${findings} findings in ${missing.length} files point to files that don't exist locally, e.g. ${missing[0]}. ` +
+            'Map the scan paths to the local checkout before triaging.',
+            'Add Path Mapping',
+            'Open Settings'
+        );
+        if (choice === 'Add Path Mapping') {
+            await this._promptPathMapping(missing);
+        } else if (choice === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'semgrepTriage.pathMappings');
+        }
+    }
+
+    /**
+     * Checks the files changed on disk shortly after the last change.
+     */
+    private _scheduleStalenessCheck(filePath: string) {
+        this._changedFiles.add(filePath);
+        if (this._stalenessTimer) {
+            clearTimeout(this._stalenessTimer);
+        }
+        this._stalenessTimer = setTimeout(() => {
+            const filePaths = this._changedFiles;
+            this._changedFiles = new Set();
+            this._checkStaleness(filePaths);
+        }, SemgrepResultsPanel._stalenessDelay);
+    }
+
+    /**
+     * Checks the findings of the given files, or of all files, against the
+     * current file contents. Findings whose code moved are relocated and
+     * findings whose code no longer exists are flagged as stale.
+     */
+    private _checkStaleness(filePaths?: Set<string>) {
+        this._stalenessCheck = this._stalenessCheck
+            .then(() => this._relocateFindings(filePaths))
+            .catch((e: any) => {
+                vscode.window.showErrorMessage(`Failed to check for stale findings: ${e.message}`);
+            });
+    }
+
+    /**
+     * Runs a staleness check, see _checkStaleness.
+     */
+    private async _relocateFindings(filePaths?: Set<string>) {
+        // Fixed findings no longer match on purpose
+        const byFile = new Map<string, SemgrepResult[]>();
+        for (const category of TRIAGE_CATEGORIES.filter(c => c !== 'fixed')) {
+            for (const item of this._results[category]) {
+                const filePath = this.resolvePath(item.path);
+                if (!filePaths || filePaths.has(filePath)) {
+                    const fileItems = byFile.get(filePath) ?? [];
+                    fileItems.push(item);
+                    byFile.set(filePath, fileItems);
+                }
+            }
+        }
+
+        let moved = 0;
+        let changed = false;
+        for (const [filePath, items] of byFile) {
+            let lines: string[] | undefined;
+            try {
+                lines = (await fs.readFile(filePath, 'utf8')).split(/\r?\n/);
+            } catch {
+                // Files that were never found locally are reported by _checkMissingFiles,
+                // a file deleted while triaging takes the code of its findings with it
+                if (!filePaths) {
+                    continue;
+                }
+            }
+
+            const locations = lines ? locateFindings(lines, items) : items.map(() => ({ status: 'stale' as const }));
+            items.forEach((item, index) => {
+                const location = locations[index];
+                if (location.status === 'moved') {
+                    moveFinding(item, location.line);
+                    moved++;
+                }
+                const stale = location.status === 'stale' || undefined;
+                if (item.stale !== stale) {
+                    item.stale = stale;
+                    changed = true;
+                }
+            });
+        }
+
+        if (moved === 0 && !changed) {
+            return;
+        }
+        this._refreshView();
+        SemgrepResultsPanel._onDidChangeResults.fire({ panel: this });
+        this._scheduleAutosave();
+
+        const stale = TRIAGE_CATEGORIES.filter(c => c !== 'fixed')
+            .reduce((sum, category) => sum + this._results[category].filter(item => item.stale).length, 0);
+        vscode.window.setStatusBarMessage(
+            `Semgrep Triage: ${moved} findings relocated, ${stale} stale findings whose code no longer exists`, 5000
+        );
+    }
+
+    /**
+     * Asks for the scan path prefix and the local folder it maps to, and saves the mapping.
+     */
+    private async _promptPathMapping(missing: string[]) {
+        const from = await vscode.window.showInputBox({
+            title: 'Path Mapping',
+            prompt: 'Path prefix used by the scan, e.g. the checkout directory in CI',
+            value: commonDirectory(missing),
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Enter the prefix to replace.'
+        });
+        if (!from) {
+            return;
+        }
+        const folder = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.Uri.file(this._rootPath),
+            title: `Local Folder for ${from.trim()}`
+        });
+        if (!folder || folder.length === 0) {
+            return;
+        }
+        // Saving the setting resolves the paths again
+        await addPathMapping({ from: from.trim(), to: folder[0].fsPath });
+    }
+
+    /**
+     * Moves the results with the given IDs into a category, wherever they currently are.
+     */
+    public triage(ids: string[], to: TriageCategory) {
+        this._handleTriage({ ids, to });
+    }
+
+    /**
+     * Reverts the last triage operation.
+     */
+    public undo() {
+        const operation = this._history.undo();
+        if (!operation) {
+            vscode.window.setStatusBarMessage('Semgrep Triage: nothing to undo', 3000);
+            return;
+        }
+        const changes = this._keepFixed(operation.changes, 'after');
+        applyChanges(this._results, changes, 'before');
+        this._appendAudit('undo', changes.map(c => ({ id: c.id, before: c.after, after: c.before })));
+        this._updateView(changes);
+    }
+
+    /**
+     * Re-applies the last undone triage operation.
+     */
+    public redo() {
+        const operation = this._history.redo();
+        if (!operation) {
+            vscode.window.setStatusBarMessage('Semgrep Triage: nothing to redo', 3000);
+            return;
+        }
+        const changes = this._keepFixed(operation.changes, 'before');
+        applyChanges(this._results, changes, 'after');
+        this._appendAudit('redo', changes);
+        this._updateView(changes);
+    }
+
+    /**
+     * Leaves out the changes of an undo or redo that would take a finding out
+     * of Fixed when the operation didn't put it there: its fix changed the
+     * code, which undo doesn't revert. `current` is the side of the changes
+     * the findings are expected to be in.
+     */
+    private _keepFixed(changes: TriageChange[], current: 'before' | 'after'): TriageChange[] {
+        const index = this._indexResults();
+        return changes.filter(change => index.get(change.id)?.category !== 'fixed' || change[current].category === 'fixed');
+    }
+
+    /**
+     * Compares the findings with a baseline progress or results file and shows
+     * the new, still present and resolved findings. Still present findings
+     * that are untriaged inherit the baseline's decision.
+     */
+    public async compareWithBaseline() {
+        const uri = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: false,
+            filters: { 'Progress or Results Files': ['json', 'sarif'] },
+            title: 'Select Baseline Progress or Results File'
+        });
+        if (!uri || uri.length === 0) {
+            return;
+        }
+
+        try {
+            const baseline = await this._readBaseline(uri[0]);
+            await this._restored;
+            const comparison = compareWithBaseline(this._results, baseline);
+
+            const before = snapshotResults(this._results);
+            const index = this._indexResults();
+            const moved = new Set<SemgrepResult>();
+            for (const { id, baseline: previous, baselineCategory } of comparison.stillPresent) {
+                const found = index.get(id);
+                // The baseline's fixed findings are reported again, so their fix didn't stick
+                if (found?.category !== 'untriaged' || baselineCategory === 'untriaged' || baselineCategory === 'fixed') {
+                    continue;
+                }
+                const item = found.item;
+                item.note = previous.note;
+                item.verdict = previous.verdict;
+                item.severityOverride = previous.severityOverride;
+                if (baselineCategory === 'falsePositives' && !item.note) {
+                    item.note = `Inherited from baseline ${path.basename(uri[0].fsPath)}`;
+                }
+                moved.add(item);
+                this._results[baselineCategory].push(item);
+            }
+            if (moved.size > 0) {
+                this._results.untriaged = this._results.untriaged.filter(item => !moved.has(item));
+            }
+            const inherited = diffSnapshots(before, snapshotResults(this._results)).length;
+            this._recordOperation('compare with baseline', before);
+
+            this._baseline = { label: path.basename(uri[0].fsPath), comparison };
+            this._updateView();
+
+            vscode.window.showInformationMessage(
+                `Compared with ${this._baseline.label}: ${comparison.newIds.length} new, ` +
+                `${comparison.stillPresent.length} still present (${inherited} inherited the baseline decision), ` +
+                `${comparison.resolved.length} resolved.`
+            );
+        } catch (e: any) {
+            if (e instanceof ProgressFormatError) {
+                vscode.window.showErrorMessage(`Invalid baseline file: ${e.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Failed to compare with baseline: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * Reads a baseline, either saved progress or a plain results file.
+     */
+    private async _readBaseline(uri: vscode.Uri): Promise<TriageResults> {
+        const fileData = await vscode.workspace.fs.readFile(uri);
+        let data: any;
+        try {
+            data = JSON.parse(Buffer.from(fileData).toString('utf8'));
+        } catch (e: any) {
+            throw new ProgressFormatError(`Not valid JSON: ${e.message}`);
+        }
+
+        if (isSarifLog(data) || (Array.isArray(data?.results) && data.formatVersion === undefined)) {
+            return { untriaged: assignFingerprintIds(await readResultsFile(uri)), issues: [], falsePositives: [], fixed: [] };
+        }
+        return parseProgressFile(data).results;
+    }
+
+    /**
+     * Summarizes the baseline comparison, if there is one, regardless of the filters.
+     */
+    private _baselineSummary() {
+        if (!this._baseline) {
+            return null;
+        }
+        const { comparison, label } = this._baseline;
+        const index = this._indexResults();
+        const count = (keys: string[]) => {
+            const counts = new Map<string, number>();
+            keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+            return Array.from(counts.entries());
+        };
+        return {
+            label,
+            newCount: comparison.newIds.length,
+            newBySeverity: count(comparison.newIds
+                .map(id => index.get(id)?.item)
+                .filter(item => item)
+                .map(item => effectiveSeverity(item!))),
+            stillCount: comparison.stillPresent.length,
+            stillByCategory: count(comparison.stillPresent.map(entry => entry.baselineCategory)),
+            resolvedCount: comparison.resolved.length
+        };
+    }
+
+    /**
+     * Adds the findings of more results files to the session, prompting for
+     * the files when none are given. Findings already in the session are skipped.
+     */
+    public async addResultsFiles(uris?: vscode.Uri[]) {
+        uris = uris ?? await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: true,
+            filters: { 'Semgrep Results': ['json', 'sarif'] },
+            title: 'Add Semgrep Results Files'
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        await this._restored;
+        let added: SemgrepResult[] = [];
+        let duplicates = 0;
+        for (const uri of uris) {
+            try {
+                const merged = mergeResults(this._results, (await readResultsFile(uri)).map(withNormalizedMetadata));
+                added = added.concat(merged.added);
+                duplicates += merged.duplicates;
+            } catch (e: any) {
+                vscode.window.showErrorMessage(`Failed to add ${path.basename(uri.fsPath)}: ${e.message}`);
+            }
+        }
+
+        // Only the new findings are subject to the auto-triage policies
+        const before = snapshotResults(this._results);
+        const newFindings: TriageResults = { untriaged: [...added], issues: [], falsePositives: [], fixed: [] };
+        const autoTriaged = applyAutoTriagePolicies(newFindings, getAutoTriagePolicies());
+        for (const category of ['issues', 'falsePositives'] as TriageCategory[]) {
+            for (const item of newFindings[category]) {
+                this._results.untriaged.splice(this._results.untriaged.indexOf(item), 1);
+                this._results[category].push(item);
+            }
+        }
+        this._recordOperation('policy', before);
+        this._updateView();
+        // The added findings are part of the session even when nothing was triaged
+        this._scheduleAutosave();
+
+        vscode.window.showInformationMessage(
+            `Added ${added.length} findings` +
+            (duplicates > 0 ? `, ${duplicates} were already in the session` : '') +
+            (autoTriaged > 0 ? `, ${autoTriaged} triaged by auto-triage policies.` : '.')
+        );
+        this._checkMissingFiles();
+        this._checkStaleness();
     }
 
     /**
      * Creates a new panel or shows the existing one.
      */
-    public static createOrShow(extensionUri: vscode.Uri, results: any[], filePath: string) {
+    public static createOrShow(context: vscode.ExtensionContext, results: any[], filePath: string) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -99,9 +722,11 @@ export class SemgrepResultsPanel {
         // If we already have a panel, show it.
         if (SemgrepResultsPanel.currentPanel) {
             SemgrepResultsPanel.currentPanel._panel.reveal(column);
-            // Re-initialize with new data if a new file is loaded
+            // Re-initialize with new data if a new file is loaded, dropping the old message handlers
+            SemgrepResultsPanel.currentPanel._flushAutosave();
+            SemgrepResultsPanel.currentPanel._releaseListeners();
             SemgrepResultsPanel.currentPanel = new SemgrepResultsPanel(
-                SemgrepResultsPanel.currentPanel._panel, extensionUri, results, filePath
+                SemgrepResultsPanel.currentPanel._panel, context, results, filePath
             );
             return;
         }
@@ -111,63 +736,460 @@ export class SemgrepResultsPanel {
             SemgrepResultsPanel.viewType,
             'Semgrep Triage Results',
             column || vscode.ViewColumn.One,
-            {
-                enableScripts: true,
-                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            SemgrepResultsPanel._getWebviewOptions(context.extensionUri)
+        );
+
+        SemgrepResultsPanel.currentPanel = new SemgrepResultsPanel(panel, context, results, filePath);
+    }
+
+    /**
+     * Restores a panel after a window reload from the session of its results file.
+     */
+    public static revive(panel: vscode.WebviewPanel, context: vscode.ExtensionContext, state: any) {
+        panel.webview.options = SemgrepResultsPanel._getWebviewOptions(context.extensionUri);
+
+        const filePath = typeof state?.sourcePath === 'string' ? state.sourcePath : '';
+        SemgrepResultsPanel.currentPanel?.dispose();
+        SemgrepResultsPanel.currentPanel = new SemgrepResultsPanel(panel, context, [], filePath, true);
+    }
+
+    /**
+     * Options of the webview, shared by new and revived panels.
+     */
+    private static _getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+        };
+    }
+
+    /**
+     * Sends the initial set of data to the webview.
+     */
+    private _sendInitialData() {
+        this._sendOptions();
+        this._panel.webview.postMessage({
+            command: 'setSession',
+            data: { sourcePath: this._filePath }
+        });
+        this._refreshView();
+    }
+
+    /**
+     * Sends the configurable triage options to the webview.
+     */
+    private _sendOptions() {
+        const config = vscode.workspace.getConfiguration('semgrepTriage');
+        this._panel.webview.postMessage({
+            command: 'setOptions',
+            data: {
+                verdicts: config.get<string[]>('customVerdicts') ?? [],
+                requireFalsePositiveNote: config.get<boolean>('requireFalsePositiveNote') ?? true
+            }
+        });
+    }
+
+    /**
+     * Maps the ID of every result to the result and its category.
+     */
+    private _indexResults(): Map<string, { item: SemgrepResult, category: TriageCategory }> {
+        const index = new Map<string, { item: SemgrepResult, category: TriageCategory }>();
+        for (const category of TRIAGE_CATEGORIES) {
+            this._results[category].forEach(item => index.set(item.id, { item, category }));
+        }
+        return index;
+    }
+
+    /**
+     * Finds a result in any category.
+     */
+    private _findResult(id: string): SemgrepResult | undefined {
+        for (const category of TRIAGE_CATEGORIES) {
+            const item = this._results[category].find(r => r.id === id);
+            if (item) {
+                return item;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Handles moving a batch of items between triage categories. False
+     * positives without a justification prompt for one when notes are mandatory.
+     */
+    private async _handleTriage(data: { ids: string[], to: TriageCategory, note?: string }) {
+        const ids = new Set(data.ids);
+        const to = data.to;
+        const index = this._indexResults();
+        const items = Array.from(ids).map(id => index.get(id)?.item).filter(item => item) as SemgrepResult[];
+        const before = snapshotResults(this._results);
+
+        let missing: SemgrepResult[] = [];
+        const requireNote = vscode.workspace.getConfiguration('semgrepTriage').get<boolean>('requireFalsePositiveNote') ?? true;
+        if (to === 'falsePositives' && requireNote && !data.note) {
+            missing = items.filter(item => !item.note);
+            if (missing.length > 0) {
+                const note = await vscode.window.showInputBox({
+                    title: 'False Positive Justification',
+                    prompt: `Why ${missing.length === 1 ? 'is this finding' : `are these ${missing.length} findings`} a false positive?`,
+                    ignoreFocusOut: true,
+                    validateInput: value => value.trim() ? undefined : 'A justification is required for false positives.'
+                });
+                if (note === undefined) {
+                    // Cancelled, leave the findings where they are
+                    this._panel.webview.postMessage({ command: 'triageCancelled', data: { ids: data.ids } });
+                    return;
+                }
+                missing.forEach(item => item.note = note.trim());
+            }
+        }
+
+        if (data.note) {
+            items.forEach(item => item.note = data.note);
+        }
+
+        for (const from of TRIAGE_CATEGORIES) {
+            if (from === to) {
+                continue;
+            }
+            this._results[from] = this._results[from].filter(item => {
+                if (!ids.has(item.id)) {
+                    return true;
+                }
+                this._results[to].push(item);
+                return false;
+            });
+        }
+
+        this._updateView(this._recordOperation('triage', before));
+    }
+
+    /**
+     * Returns the IDs of the findings of a category matching a rule and/or
+     * folder, for the rule and folder wide actions of the webview.
+     */
+    private _scopeIds(scope: { category: TriageCategory, rule?: string, folder?: string }): string[] {
+        const prefix = scope.folder ? `${scope.folder}/` : '';
+        return (this._results[scope.category] ?? [])
+            .filter(item => (scope.rule === undefined || item.check_id === scope.rule) &&
+                (scope.folder === undefined || normalizePath(item.path).startsWith(prefix)))
+            .map(item => item.id);
+    }
+
+    /**
+     * Records the changes since the snapshot in the audit trail and, unless
+     * they can't be undone, as an undoable operation.
+     */
+    private _recordOperation(action: string, before: Map<string, FindingState>, undoable = true): TriageChange[] {
+        const changes = diffSnapshots(before, snapshotResults(this._results));
+        if (changes.length > 0) {
+            if (undoable) {
+                this._history.push({ label: action, changes });
+            }
+            this._appendAudit(action, changes);
+        }
+        return changes;
+    }
+
+    /**
+     * Appends an audit trail entry for every change.
+     */
+    private async _appendAudit(action: string, changes: TriageChange[]) {
+        const timestamp = new Date().toISOString();
+        const user = await getAuditUser(this._rootPath);
+        const index = this._indexResults();
+
+        for (const change of changes) {
+            const item = index.get(change.id)?.item;
+            this._audit.push({
+                timestamp,
+                user,
+                action,
+                findingId: change.id,
+                check_id: item?.check_id ?? '',
+                path: item?.path ?? '',
+                from: change.before.category,
+                to: change.after.category,
+                note: change.after.note
+            });
+        }
+        this._scheduleAutosave();
+    }
+
+    /**
+     * Sends the audit trail of a finding to the webview.
+     */
+    private _sendAudit(id: string) {
+        this._panel.webview.postMessage({
+            command: 'audit',
+            data: { id, entries: this._audit.filter(entry => entry.findingId === id) }
+        });
+    }
+
+    /**
+     * Sends the steps of a finding's taint trace to the webview.
+     */
+    private _sendDataflow(id: string) {
+        const item = this._findResult(id);
+        this._panel.webview.postMessage({
+            command: 'dataflow',
+            data: { id, steps: item ? dataflowSteps(item) : [] }
+        });
+    }
+
+    /**
+     * Sends the source around a finding, read from disk, to the webview.
+     */
+    private async _sendSource(id: string) {
+        const item = this._findResult(id);
+        if (!item) {
+            return;
+        }
+
+        const context = SemgrepResultsPanel._previewContextLines;
+        try {
+            const lines = (await fs.readFile(this.resolvePath(item.path), 'utf8')).split(/\r?\n/);
+            const firstLine = Math.max(1, item.start.line - context);
+            const lastLine = Math.min(lines.length, item.end.line + context);
+            this._panel.webview.postMessage({
+                command: 'source',
+                data: { id, firstLine, lines: lines.slice(firstLine - 1, lastLine) }
+            });
+        } catch {
+            this._panel.webview.postMessage({
+                command: 'source',
+                data: { id, error: `Could not read ${item.path}. (Is the path correct?)` }
+            });
+        }
+    }
+
+    /**
+     * Sends the current state to the webview and notifies listeners. Given
+     * the changes of a triage operation, only the tables they touch are
+     * rebuilt; otherwise the webview reloads everything.
+     */
+    private _updateView(changes?: TriageChange[]) {
+        this._refreshView(changes, !changes);
+        this._panel.webview.postMessage({
+            command: 'setHistory',
+            data: {
+                undo: this._history.nextUndo?.label,
+                redo: this._history.nextRedo?.label
+            }
+        });
+        SemgrepResultsPanel._onDidChangeResults.fire({ panel: this, changes });
+        this._scheduleAutosave();
+    }
+
+    /**
+     * Invalidates the rows of the tables touched by the changes, or of all
+     * tables, and sends the size of every table to the webview. The webview
+     * then requests the rows it shows; findings are only sent as they scroll
+     * into view.
+     */
+    private _refreshView(changes?: TriageChange[], reload = false) {
+        const tableIds = [...TRIAGE_CATEGORIES, ...(this._baseline ? SemgrepResultsPanel._baselineTables : [])];
+        const touched = changes && new Set<string>([
+            ...changes.flatMap(change => [change.before.category, change.after.category]),
+            ...(this._baseline ? SemgrepResultsPanel._baselineTables : [])
+        ]);
+        for (const table of tableIds) {
+            if (!touched || touched.has(table)) {
+                this._tables.delete(table);
+                this._tableVersions.set(table, (this._tableVersions.get(table) ?? 0) + 1);
+            }
+        }
+
+        const tables: Record<string, { version: number, total: number, shown: number, rows: number, tall: number[] }> = {};
+        for (const table of tableIds) {
+            const view = this._table(table);
+            tables[table] = {
+                version: this._tableVersions.get(table)!,
+                total: view.total,
+                shown: view.shown.length,
+                rows: view.rows.length,
+                tall: view.tall
+            };
+        }
+
+        this._panel.webview.postMessage({
+            command: 'updateView',
+            data: {
+                tables,
+                facets: buildFacets(TRIAGE_CATEGORIES.flatMap(category => this._results[category])),
+                baseline: this._baselineSummary(),
+                changed: changes?.map(change => ({ id: change.id, from: change.before.category, to: change.after.category })),
+                reload
+            }
+        });
+    }
+
+    /**
+     * Returns the rows of a table, building them when they were invalidated.
+     */
+    private _table(table: string): TableView {
+        let view = this._tables.get(table);
+        if (!view) {
+            const entries = this._tableEntries(table);
+            const shown = filterEntries(entries, this._viewOptions);
+            const rows = buildRows(table, shown, this._viewOptions, !SemgrepResultsPanel._baselineTables.includes(table));
+            view = {
+                total: entries.length,
+                shown,
+                rows,
+                tall: rows.flatMap((row, index) => row.kind === 'metadata' ? [index] : [])
+            };
+            this._tables.set(table, view);
+        }
+        return view;
+    }
+
+    /**
+     * Returns the findings of a table: a triage category, or the new, still
+     * present or resolved findings of the baseline comparison.
+     */
+    private _tableEntries(table: string): ViewEntry[] {
+        if ((TRIAGE_CATEGORIES as string[]).includes(table)) {
+            const category = table as TriageCategory;
+            return this._results[category].map(item => ({ item, category }));
+        }
+        const comparison = this._baseline?.comparison;
+        if (!comparison) {
+            return [];
+        }
+        if (table === 'baselineResolved') {
+            // Only in the baseline, so not part of the session
+            return comparison.resolved.map(({ item, category }) => ({ item, baseline: { category, verdict: item.verdict } }));
+        }
+
+        const index = this._indexResults();
+        const entries: ViewEntry[] = [];
+        if (table === 'baselineNew') {
+            comparison.newIds.forEach(id => {
+                const found = index.get(id);
+                if (found) {
+                    entries.push(found);
+                }
+            });
+        } else {
+            comparison.stillPresent.forEach(({ id, baseline: previous, baselineCategory }) => {
+                const found = index.get(id);
+                if (found) {
+                    entries.push({ ...found, baseline: { category: baselineCategory, verdict: previous.verdict } });
+                }
+            });
+        }
+        return entries;
+    }
+
+    /**
+     * Sends a range of rows of a table to the webview.
+     */
+    private _sendRows(table: string, start: number, end: number) {
+        const last = Math.min(end, start + SemgrepResultsPanel._maxRowsPerRequest);
+        this._panel.webview.postMessage({
+            command: 'rows',
+            data: {
+                table,
+                version: this._tableVersions.get(table),
+                start,
+                rows: this._table(table).rows.slice(start, last)
             }
-        );
+        });
+    }
 
-        SemgrepResultsPanel.currentPanel = new SemgrepResultsPanel(panel, extensionUri, results, filePath);
+    /**
+     * Sends the IDs of all shown findings of a table, for selecting them.
+     */
+    private _sendShownIds(table: string, select: boolean) {
+        this._panel.webview.postMessage({
+            command: 'shownIds',
+            data: { table, select, ids: this._table(table).shown.map(entry => entry.item.id) }
+        });
     }
 
     /**
-     * Sends the initial set of data to the webview.
+     * Sends a finding and its category to the webview, e.g. for the details pane.
      */
-    private _sendInitialData() {
+    private _sendFinding(id: string) {
+        const found = this._indexResults().get(id);
         this._panel.webview.postMessage({
-            command: 'updateView',
-            data: this._results
+            command: 'finding',
+            data: { id, item: found?.item ?? null, category: found?.category }
         });
     }
 
     /**
-     * Handles moving an item between triage categories.
+     * Sends the finding the rapid triage mode shows: the finding with the
+     * given ID if it is still untriaged, otherwise the one that took its
+     * place. Findings already sent for triage are excluded.
      */
-    private _handleTriage(data: { id: string, from: 'untriaged' | 'issues' | 'falsePositives', to: 'issues' | 'falsePositives' | 'untriaged' }) {
-        const { id, from, to } = data;
+    private _sendRapid(data: { index: number, id?: string, exclude?: string[] }) {
+        const excluded = new Set(data.exclude ?? []);
+        const queue = this._table('untriaged').shown.filter(entry => !excluded.has(entry.item.id));
+        let index = data.id ? queue.findIndex(entry => entry.item.id === data.id) : -1;
+        if (index < 0) {
+            index = Math.min(Math.max(0, data.index), queue.length);
+        }
+        this._panel.webview.postMessage({
+            command: 'rapid',
+            data: {
+                index,
+                total: queue.length,
+                item: queue[index]?.item ?? null,
+                next: queue[index + 1]?.item ?? null
+            }
+        });
+    }
 
-        const index = this._results[from].findIndex(r => r.id === id);
-        if (index === -1) return; // Not found
+    /**
+     * Saves the session shortly after the last change.
+     */
+    private _scheduleAutosave() {
+        if (this._autosaveTimer) {
+            clearTimeout(this._autosaveTimer);
+        }
+        this._autosaveTimer = setTimeout(() => this._flushAutosave(), SemgrepResultsPanel._autosaveDelay);
+    }
 
-        const item = this._results[from].splice(index, 1)[0];
-        this._results[to].push(item);
+    /**
+     * Saves a pending session change immediately.
+     */
+    private _flushAutosave() {
+        if (!this._autosaveTimer) {
+            return;
+        }
+        clearTimeout(this._autosaveTimer);
+        this._autosaveTimer = undefined;
 
-        // Update the webview
-        this._panel.webview.postMessage({
-            command: 'updateView',
-            data: this._results
-        });
+        const results = this._results;
+        const audit = this._audit;
+        this._source
+            .then(source => this._store.save(this._filePath, createProgressFile(results, source, audit)))
+            .catch((e: any) => vscode.window.showErrorMessage(`Failed to autosave triage progress: ${e.message}`));
     }
 
     /**
      * Opens the file and navigates to the specified location.
      */
-    private async _goToLocation(data: { path: string, line: number, col: number }) {
+    public async goToLocation(data: { path: string, line: number, col: number, end?: { line: number, col: number }, preserveFocus?: boolean }) {
         try {
             // Resolve the path relative to the workspace or the initial file path
-            const filePath = path.isAbsolute(data.path) ? data.path : path.join(this._rootPath, data.path);
-            const uri = vscode.Uri.file(filePath);
+            const uri = vscode.Uri.file(this.resolvePath(data.path));
             
             const document = await vscode.workspace.openTextDocument(uri);
             const startLine = Math.max(0, data.line - 1); // VS Code is 0-indexed
             const startCol = Math.max(0, data.col - 1);
 
             const position = new vscode.Position(startLine, startCol);
-            const range = new vscode.Range(position, position);
+            const range = data.end
+                ? new vscode.Range(position, new vscode.Position(Math.max(0, data.end.line - 1), Math.max(0, data.end.col - 1)))
+                : new vscode.Range(position, position);
 
             await vscode.window.showTextDocument(document, {
                 selection: range,
-                viewColumn: vscode.ViewColumn.Beside // Open in the first column
+                viewColumn: vscode.ViewColumn.Beside, // Open in the first column
+                preserveFocus: data.preserveFocus
             });
 
         } catch (error) {
@@ -175,10 +1197,37 @@ export class SemgrepResultsPanel {
         }
     }
 
+    /**
+     * Highlights the taint trace of a finding in the editors and opens one of
+     * its steps, the taint source by default.
+     */
+    public async showDataflow(id: string, step = 0) {
+        const item = this._findResult(id);
+        const steps = item ? dataflowSteps(item) : [];
+        if (steps.length === 0) {
+            vscode.window.showInformationMessage('This finding has no dataflow trace.');
+            return;
+        }
+
+        this._dataflow.show(steps.map(s => ({ uri: vscode.Uri.file(this.resolvePath(s.path)), step: s })));
+        const target = steps[Math.min(Math.max(0, step), steps.length - 1)];
+        await this.goToLocation({ path: target.path, line: target.start.line, col: target.start.col, end: target.end, preserveFocus: true });
+    }
+
+    /**
+     * Opens a reference link of the rule metadata in the browser.
+     */
+    private _openExternal(url: string) {
+        const uri = vscode.Uri.parse(url, true);
+        if (uri.scheme === 'http' || uri.scheme === 'https') {
+            vscode.env.openExternal(uri);
+        }
+    }
+
     /**
      * Prompts for a file and saves the current state.
      */
-    private async _saveProgress(data: any) {
+    private async _saveProgress() {
         try {
             const fileUri = await vscode.window.showSaveDialog({
                 filters: { 'JSON': ['json'] },
@@ -186,7 +1235,7 @@ export class SemgrepResultsPanel {
             });
 
             if (fileUri) {
-                const content = JSON.stringify(data, null, 2);
+                const content = JSON.stringify(createProgressFile(this._results, await this._source, this._audit), null, 2);
                 await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content));
                 vscode.window.showInformationMessage('Semgrep triage progress saved successfully!');
             }
@@ -208,24 +1257,491 @@ export class SemgrepResultsPanel {
             });
 
             if (uri && uri.length > 0) {
-                const fileData = await vscode.workspace.fs.readFile(uri[0]);
-                const content = Buffer.from(fileData).toString('utf8');
-                const loadedData = JSON.parse(content);
-
-                // Basic validation
-                if (true || (loadedData.untriaged && loadedData.issues && loadedData.falsePositives)) {
-                    this._results = loadedData;
-                    this._panel.webview.postMessage({
-                        command: 'updateView',
-                        data: this._results
-                    });
-                    vscode.window.showInformationMessage('Semgrep triage progress loaded successfully!');
+                const progress = await this._readProgressFile(uri[0]);
+                this._results = progress.results;
+                this._audit = progress.audit;
+                this._history.clear();
+                this._updateView();
+                this._checkMissingFiles();
+                this._checkStaleness();
+
+                const source = await this._source;
+                if (source && progress.source && source.sha256 !== progress.source.sha256) {
+                    vscode.window.showWarningMessage(`Semgrep triage progress loaded, but it was saved for a different results file (${progress.source.path}).`);
                 } else {
-                    vscode.window.showErrorMessage('Invalid progress file structure.');
+                    vscode.window.showInformationMessage('Semgrep triage progress loaded successfully!');
+                }
+            }
+        } catch (e: any) {
+            if (e instanceof ProgressFormatError) {
+                vscode.window.showErrorMessage(`Invalid progress file: ${e.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Failed to load progress: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * Reads, migrates and validates a progress file.
+     */
+    private async _readProgressFile(uri: vscode.Uri): Promise<ProgressFile> {
+        const fileData = await vscode.workspace.fs.readFile(uri);
+        let data: any;
+        try {
+            data = JSON.parse(Buffer.from(fileData).toString('utf8'));
+        } catch (e: any) {
+            throw new ProgressFormatError(`Not valid JSON: ${e.message}`);
+        }
+        return parseProgressFile(data);
+    }
+
+    /**
+     * Prompts for a previously saved progress file and carries its decisions
+     * over to the matching findings of the current scan.
+     */
+    private async _applyPreviousTriage() {
+        try {
+            const uri = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                filters: { 'JSON Files': ['json'] },
+                title: 'Select Previous Triage Progress File'
+            });
+
+            if (!uri || uri.length === 0) {
+                return;
+            }
+
+            const previous = (await this._readProgressFile(uri[0])).results;
+
+            const before = snapshotResults(this._results);
+            const { applied, unmatched } = applyPreviousDecisions(this._results, previous);
+            this._recordOperation('apply previous triage', before);
+            this._updateView();
+
+            if (unmatched.length === 0) {
+                vscode.window.showInformationMessage(`Applied ${applied} previous triage decisions.`);
+                return;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `Applied ${applied} previous triage decisions. ${unmatched.length} decisions no longer match any finding.`,
+                'Show Unmatched'
+            );
+            if (choice === 'Show Unmatched') {
+                const lines = unmatched.map(({ category, item }) =>
+                    `- [${category}] \`${item.check_id}\` ${item.path}:${item.start.line}`);
+                const document = await vscode.workspace.openTextDocument({
+                    language: 'markdown',
+                    content: `# Unmatched triage decisions\n\n${lines.join('\n')}\n`
+                });
+                await vscode.window.showTextDocument(document);
+            }
+        } catch (e: any) {
+            if (e instanceof ProgressFormatError) {
+                vscode.window.showErrorMessage(`Invalid progress file: ${e.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Failed to apply previous triage: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * Prompts for a file, by default the configured shared triage file, and
+     * writes the decisions of the current state to it.
+     */
+    public async saveSharedTriage() {
+        try {
+            const fileUri = await vscode.window.showSaveDialog({
+                filters: { 'JSON': ['json'] },
+                defaultUri: getSharedTriageUri(this._rootPath),
+                title: 'Save Shared Triage File'
+            });
+
+            if (fileUri) {
+                const store = buildTriageStore(this._results);
+                await writeTriageStore(fileUri, store);
+                vscode.window.showInformationMessage(`Saved ${Object.keys(store.findings).length} triage decisions to ${vscode.workspace.asRelativePath(fileUri)}.`);
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to save the shared triage file: ${e.message}`);
+        }
+    }
+
+    /**
+     * Prompts for a shared triage file, by default the configured one, and
+     * applies its decisions to the matching findings.
+     */
+    public async loadSharedTriage() {
+        try {
+            const uri = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                defaultUri: getSharedTriageUri(this._rootPath),
+                filters: { 'JSON Files': ['json'] },
+                title: 'Select Shared Triage File'
+            });
+
+            if (uri && uri.length > 0) {
+                this.applySharedTriage(await readTriageStore(uri[0]), 'load shared triage');
+            }
+        } catch (e: any) {
+            if (e instanceof ProgressFormatError) {
+                vscode.window.showErrorMessage(`Invalid triage file: ${e.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Failed to load the shared triage file: ${e.message}`);
+            }
+        }
+    }
+
+    /**
+     * Applies the decisions of a shared triage file as one undoable operation.
+     */
+    public applySharedTriage(store: TriageStore, action: string) {
+        const before = snapshotResults(this._results);
+        const { applied, unmatched } = applyTriageStore(this._results, store);
+        this._updateView(this._recordOperation(action, before));
+
+        if (unmatched.length === 0) {
+            vscode.window.showInformationMessage(`Applied ${applied} shared triage decisions.`);
+        } else {
+            vscode.window.showWarningMessage(`Applied ${applied} shared triage decisions. ${unmatched.length} decisions don't match any finding of this session.`);
+        }
+    }
+
+    /**
+     * Updates the analyst's note, verdict and severity override of a finding.
+     */
+    private _updateFinding(data: { id: string } & FindingDetails) {
+        const found = this._indexResults().get(data.id);
+        if (!found) {
+            return;
+        }
+
+        const before = snapshotResults(this._results);
+        const requireNote = vscode.workspace.getConfiguration('semgrepTriage').get<boolean>('requireFalsePositiveNote') ?? true;
+        const noteSaved = updateFindingDetails(found.item, found.category, data, requireNote);
+
+        this._updateView(this._recordOperation('edit', before));
+        if (!noteSaved) {
+            // Put the kept note back into the details form
+            this._sendFinding(data.id);
+            vscode.window.showWarningMessage('A justification is required for false positives, the note was kept.');
+        }
+    }
+
+    /**
+     * Confirms and persists a new auto-triage policy, then applies it to the current results.
+     */
+    private async _addPolicy(policy: AutoTriagePolicy) {
+        const label = policy.verdict === 'issues' ? 'an Issue' : 'a False Positive';
+        const scope = policy.path ? ` under \`${policy.path}\`` : '';
+        const choice = await vscode.window.showInformationMessage(
+            `Always mark \`${policy.rule}\`${scope} as ${label}? The policy is saved to the workspace settings.`,
+            { modal: true },
+            'Add Policy'
+        );
+        if (choice !== 'Add Policy') {
+            return;
+        }
+
+        try {
+            await addAutoTriagePolicy(policy);
+            const before = snapshotResults(this._results);
+            const moved = applyAutoTriagePolicies(this._results, [policy]);
+            this._recordOperation('policy', before);
+            this._updateView();
+            vscode.window.showInformationMessage(`Auto-triage policy added, ${moved} findings triaged.`);
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to add auto-triage policy: ${e.message}`);
+        }
+    }
+
+    /**
+     * Prompts for a format and a file and exports a triage report.
+     */
+    public async exportReport() {
+        const formats: (vscode.QuickPickItem & { format: ReportFormat })[] = [
+            { label: 'Markdown', description: '.md', format: 'markdown' },
+            { label: 'HTML', description: 'self-contained .html', format: 'html' },
+            { label: 'CSV', description: 'one row per finding', format: 'csv' }
+        ];
+        const picked = await vscode.window.showQuickPick(formats, { title: 'Export Triage Report', placeHolder: 'Report format' });
+        if (!picked) {
+            return;
+        }
+
+        try {
+            const extension = REPORT_EXTENSIONS[picked.format];
+            const fileUri = await vscode.window.showSaveDialog({
+                filters: { [picked.label]: [extension] },
+                defaultUri: vscode.Uri.file(path.join(this._rootPath, `semgrep_triage_report.${extension}`))
+            });
+
+            if (fileUri) {
+                const content = buildReport(picked.format, this._results, {
+                    sourcePath: this._filePath || undefined,
+                    generatedAt: new Date()
+                });
+                await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content));
+                vscode.window.showInformationMessage('Semgrep triage report exported!');
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to export report: ${e.message}`);
+        }
+    }
+
+    /**
+     * Prompts for a file and exports the current state as a SARIF log.
+     */
+    private async _exportSarif() {
+        try {
+            const fileUri = await vscode.window.showSaveDialog({
+                filters: { 'SARIF': ['sarif', 'json'] },
+                defaultUri: vscode.Uri.file(path.join(this._rootPath, 'semgrep_triage.sarif'))
+            });
+
+            if (fileUri) {
+                const content = JSON.stringify(buildSarifLog(this._results), null, 2);
+                await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content));
+                vscode.window.showInformationMessage('Semgrep triage results exported as SARIF!');
+            }
+        } catch (e: any) {
+            vscode.window.showErrorMessage(`Failed to export SARIF: ${e.message}`);
+        }
+    }
+
+    /**
+     * Inserts `nosemgrep` comments with the analysts' justifications above the
+     * given false positives, or above all of them. Findings that are already
+     * suppressed in the code are skipped. The changed files are left unsaved.
+     */
+    public async addSuppressions(ids?: string[]) {
+        const items = this._results.falsePositives.filter(item => !ids || ids.includes(item.id));
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('There are no false positives to suppress.');
+            return;
+        }
+
+        const byFile = new Map<string, SemgrepResult[]>();
+        items.forEach(item => {
+            const filePath = this.resolvePath(item.path);
+            const fileItems = byFile.get(filePath) ?? [];
+            fileItems.push(item);
+            byFile.set(filePath, fileItems);
+        });
+
+        const edit = new vscode.WorkspaceEdit();
+        const insertions = new Map<string, { line: number, count: number }[]>();
+        const suppressed: SemgrepResult[] = [];
+        let alreadySuppressed = 0;
+        const skipped: string[] = [];
+
+        for (const [filePath, fileItems] of byFile) {
+            let document: vscode.TextDocument;
+            try {
+                document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            } catch {
+                skipped.push(`${fileItems[0].path} (not found)`);
+                continue;
+            }
+            const syntax = getCommentSyntax(document.languageId);
+            if (!syntax) {
+                skipped.push(`${fileItems[0].path} (no comment syntax for ${document.languageId})`);
+                continue;
+            }
+
+            // Findings starting on the same line share one comment
+            const byLine = new Map<number, SemgrepResult[]>();
+            for (const item of fileItems) {
+                const lineItems = byLine.get(item.start.line) ?? [];
+                lineItems.push(item);
+                byLine.set(item.start.line, lineItems);
+            }
+
+            for (const [line, lineItems] of byLine) {
+                if (line < 1 || line > document.lineCount) {
+                    skipped.push(`${lineItems[0].path}:${line} (line out of range)`);
+                    continue;
+                }
+                const text = document.lineAt(line - 1).text;
+                const previousText = line > 1 ? document.lineAt(line - 2).text : '';
+                const pending = lineItems.filter(item => !hasSuppression(text, previousText, item.check_id));
+                alreadySuppressed += lineItems.length - pending.length;
+                if (pending.length === 0) {
+                    continue;
                 }
+
+                const lines = buildSuppressionLines(
+                    Array.from(new Set(pending.map(item => item.check_id))),
+                    Array.from(new Set(pending.map(item => item.note ?? ''))),
+                    syntax,
+                    /^\s*/.exec(text)![0]
+                );
+                const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+                edit.insert(document.uri, new vscode.Position(line - 1, 0), lines.map(l => l + eol).join(''));
+                const fileInsertions = insertions.get(filePath) ?? [];
+                fileInsertions.push({ line, count: lines.length });
+                insertions.set(filePath, fileInsertions);
+                suppressed.push(...pending);
+            }
+        }
+
+        if (suppressed.length > 0) {
+            if (!await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showErrorMessage('Failed to insert the nosemgrep comments.');
+                return;
+            }
+
+            // Keep the findings of the changed files on their code
+            for (const [filePath, fileInsertions] of insertions) {
+                const fileItems = TRIAGE_CATEGORIES.flatMap(category => this._results[category])
+                    .filter(item => this.resolvePath(item.path) === filePath);
+                shiftResultLines(fileItems, fileInsertions);
+            }
+
+            const states = snapshotResults(this._results);
+            this._appendAudit('nosemgrep comment', suppressed.map(item => ({ id: item.id, before: states.get(item.id)!, after: states.get(item.id)! })));
+            this._updateView();
+        }
+
+        const summary = [`Added nosemgrep comments for ${suppressed.length} findings.`];
+        if (alreadySuppressed > 0) {
+            summary.push(`${alreadySuppressed} were already suppressed.`);
+        }
+        if (suppressed.length > 0) {
+            summary.push('Review and save the changed files.');
+        }
+        if (skipped.length > 0) {
+            vscode.window.showWarningMessage(`${summary.join(' ')} Skipped: ${skipped.join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(summary.join(' '));
+        }
+    }
+
+    /**
+     * Opens a diff of a finding's file against the file with Semgrep's fix applied.
+     */
+    public async previewFix(id: string) {
+        const item = this._findResult(id);
+        if (!item || !hasFix(item)) {
+            vscode.window.showInformationMessage('This finding has no suggested fix.');
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(this.resolvePath(item.path)));
+            if (!matchesReportedCode(document.getText(findingLines(item)), item)) {
+                vscode.window.showWarningMessage(`The code of ${item.path}:${item.start.line} changed since the scan, the fix may not apply cleanly.`);
+            }
+            const fixed = applyFix(document.getText(), item);
+            if (fixed === undefined) {
+                vscode.window.showErrorMessage(`The fix of ${item.check_id} is invalid.`);
+                return;
             }
+            await FixPreview.show(document.uri, fixed, `Fix for ${item.check_id}`);
         } catch (e: any) {
-            vscode.window.showErrorMessage(`Failed to load progress: ${e.message}`);
+            vscode.window.showErrorMessage(`Failed to preview the fix: ${e.message}`);
+        }
+    }
+
+    /**
+     * Applies Semgrep's fixes of the given findings and moves them to Fixed.
+     * Findings whose code changed since the scan, or whose fix overlaps
+     * another one, are skipped. The changed files are left unsaved.
+     */
+    public async applyFixes(ids: string[]) {
+        const index = this._indexResults();
+        const items = ids.map(id => index.get(id))
+            .filter(found => found && found.category !== 'fixed' && hasFix(found.item))
+            .map(found => found!.item);
+        if (items.length === 0) {
+            vscode.window.showInformationMessage('There are no fixes to apply.');
+            return;
+        }
+
+        const byFile = new Map<string, SemgrepResult[]>();
+        items.forEach(item => {
+            const filePath = this.resolvePath(item.path);
+            const fileItems = byFile.get(filePath) ?? [];
+            fileItems.push(item);
+            byFile.set(filePath, fileItems);
+        });
+
+        const edit = new vscode.WorkspaceEdit();
+        const insertions = new Map<string, { line: number, count: number }[]>();
+        const fixed: SemgrepResult[] = [];
+        const skipped: string[] = [];
+
+        for (const [filePath, fileItems] of byFile) {
+            let document: vscode.TextDocument;
+            try {
+                document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            } catch {
+                skipped.push(`${fileItems[0].path} (not found)`);
+                continue;
+            }
+
+            // Later fixes first, so that a fix overlapping an applied one is recognized
+            let appliedStart: vscode.Position | undefined;
+            for (const item of fileItems.sort((a, b) => b.start.line - a.start.line || b.start.col - a.start.col)) {
+                const range = document.validateRange(new vscode.Range(item.start.line - 1, item.start.col - 1, item.end.line - 1, item.end.col - 1));
+                if (appliedStart && range.end.isAfter(appliedStart)) {
+                    skipped.push(`${item.path}:${item.start.line} (overlaps another fix)`);
+                    continue;
+                }
+                if (item.start.line > document.lineCount || !matchesReportedCode(document.getText(findingLines(item)), item)) {
+                    skipped.push(`${item.path}:${item.start.line} (code changed since the scan)`);
+                    continue;
+                }
+                const replacement = fixedText(document.getText(range), item);
+                if (replacement === undefined) {
+                    skipped.push(`${item.path}:${item.start.line} (invalid fix)`);
+                    continue;
+                }
+
+                edit.replace(document.uri, range, replacement);
+                const addedLines = replacement.split('\n').length - (range.end.line - range.start.line + 1);
+                if (addedLines !== 0) {
+                    // Findings below the fix move with the code
+                    const fileInsertions = insertions.get(filePath) ?? [];
+                    fileInsertions.push({ line: item.end.line + 1, count: addedLines });
+                    insertions.set(filePath, fileInsertions);
+                }
+                appliedStart = range.start;
+                fixed.push(item);
+            }
+        }
+
+        if (fixed.length > 0) {
+            if (!await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showErrorMessage('Failed to apply the fixes.');
+                return;
+            }
+
+            const before = snapshotResults(this._results);
+            const fixedItems = new Set(fixed);
+            for (const [filePath, fileInsertions] of insertions) {
+                const fileItems = TRIAGE_CATEGORIES.flatMap(category => this._results[category])
+                    .filter(item => this.resolvePath(item.path) === filePath && !fixedItems.has(item));
+                shiftResultLines(fileItems, fileInsertions);
+            }
+            for (const category of TRIAGE_CATEGORIES) {
+                this._results[category] = this._results[category].filter(item => !fixedItems.has(item));
+            }
+            this._results.fixed.push(...fixed);
+            // Undo would move the findings back but leave the fixed code in place
+            this._recordOperation('apply fix', before, false);
+            this._updateView();
+        }
+
+        const summary = `Applied ${fixed.length} ${fixed.length === 1 ? 'fix' : 'fixes'}.${fixed.length > 0 ? ' Review and save the changed files; fixes are reverted with Undo in the editor, not with the triage Undo.' : ''}`;
+        if (skipped.length > 0) {
+            vscode.window.showWarningMessage(`${summary} Skipped: ${skipped.join(', ')}`);
+        } else {
+            vscode.window.showInformationMessage(summary);
         }
     }
 
@@ -235,8 +1751,18 @@ export class SemgrepResultsPanel {
     public dispose() {
         SemgrepResultsPanel.currentPanel = undefined;
 
+        this._flushAutosave();
+
         this._panel.dispose();
+        this._releaseListeners();
 
+        SemgrepResultsPanel._onDidChangeResults.fire({ panel: undefined });
+    }
+
+    /**
+     * Disposes the listeners registered by this instance.
+     */
+    private _releaseListeners() {
         while (this._disposables.length) {
             const x = this._disposables.pop();
             if (x) {
@@ -264,59 +1790,98 @@ export class SemgrepResultsPanel {
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <!-- Only the extension's script may run; inline styles are used to show and hide sections -->
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} data:; script-src 'nonce-${nonce}';">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>Semgrep Triage</title>
                 <link href="${styleUri}" rel="stylesheet">
-                <style>
-                    /* Basic inline styles for clarity and robust tables */
-                    body { font-family: sans-serif; padding: 20px; }
-                    .header-buttons { margin-bottom: 20px; }
-                    .header-buttons button { margin-right: 10px; padding: 8px 15px; cursor: pointer; }
-                    
-                    h2 { border-bottom: 1px solid var(--vscode-dropdown-border); padding-bottom: 5px; margin-top: 30px; }
-                    
-                    .result-table { width: 100%; border-collapse: collapse; margin-top: 10px; }
-                    .result-table th, .result-table td { 
-                        border: 1px solid var(--vscode-editorGroup-border); 
-                        padding: 8px; 
-                        text-align: left;
-                        vertical-align: top;
-                    }
-                    .result-table th { background-color: var(--vscode-editorGroupHeader-tabsBackground); }
-                    .lines-cell { font-family: 'Consolas', 'Courier New', monospace; font-size: 0.9em; white-space: pre-wrap; }
-                    .actions button { margin-right: 5px; cursor: pointer; padding: 5px 10px; }
-                    
-                    /* Severity colors */
-                    .severity-ERROR { color: var(--vscode-errorForeground); font-weight: bold; }
-                    .severity-WARNING { color: var(--vscode-list-warningForeground); font-weight: bold; }
-                    .severity-INFO { color: var(--vscode-list-deemphasizedForeground); }
-                    .action-button {
-                        background-color: var(--vscode-button-background);
-                        color: var(--vscode-button-foreground);
-                        border: none;
-                        padding: 5px 10px;
-                        margin-right: 5px;
-                        cursor: pointer;
-                    }
-                    .action-button.action-fp { background-color: var(--vscode-terminal-ansiGreen); }
-                    .action-button.action-issue { background-color: var(--vscode-errorForeground); }
-                    .action-button:hover { background-color: var(--vscode-button-hoverBackground); }
-
-                    .selected {
-                        background-color: #6e6e6eff;
-                        color: #fff;
-                    }
-                </style>
             </head>
             <body>
                 <h1>Semgrep Triage Tool</h1>
                 <div class="header-buttons">
                     <button id="save-progress">💾 Save Progress</button>
                     <button id="load-progress">📂 Load Progress</button>
+                    <button id="add-results">➕ Add Results Files</button>
+                    <button id="compare-baseline">🔍 Compare with Baseline</button>
+                    <button id="apply-previous">♻️ Apply Previous Triage</button>
+                    <button id="save-shared" title="Write the triage decisions to a file that can be committed with the code">🤝 Save Shared Triage</button>
+                    <button id="load-shared" title="Apply the decisions of a shared triage file">📥 Load Shared Triage</button>
+                    <button id="export-sarif">📤 Export SARIF</button>
+                    <button id="export-report">📝 Export Report</button>
+                    <button id="undo" disabled>↶ Undo</button>
+                    <button id="redo" disabled>↷ Redo</button>
+                    <button id="rapid-triage" title="Step through the untriaged findings with the keyboard">⚡ Rapid Triage</button>
                 </div>
                 
+                <div id="filter-bar" class="filter-bar">
+                    <input id="filter-text" type="search" placeholder="Search message and snippet...">
+                    <span id="filter-severities" class="filter-severities"></span>
+                    <select id="filter-rules" multiple size="4" title="Rule IDs (none selected shows all)"></select>
+                    <select id="filter-sources" multiple size="4" title="Source scans (none selected shows all)" style="display:none;"></select>
+                    <select id="filter-confidence" title="Rule confidence">
+                        <option value="">Any confidence</option>
+                        <option value="HIGH">High confidence</option>
+                        <option value="MEDIUM">Medium confidence and above</option>
+                    </select>
+                    <select id="filter-stale" title="Findings whose code no longer exists in the file">
+                        <option value="">Stale and current</option>
+                        <option value="hide">Hide stale</option>
+                        <option value="only">Only stale (possibly fixed)</option>
+                    </select>
+                    <input id="filter-cwe" type="text" placeholder="CWE, e.g. 79, 89">
+                    <input id="filter-include" type="text" placeholder="Include paths, e.g. src/**">
+                    <input id="filter-exclude" type="text" placeholder="Exclude paths, e.g. **/test/**">
+                    <label>Group by
+                        <select id="group-by">
+                            <option value="none">None</option>
+                            <option value="rule">Rule</option>
+                            <option value="file">File</option>
+                        </select>
+                    </label>
+                    <label>Sort by
+                        <select id="sort-by">
+                            <option value="none">Scan order</option>
+                            <option value="severity">Severity</option>
+                            <option value="confidence">Confidence</option>
+                            <option value="likelihood">Likelihood</option>
+                            <option value="impact">Impact</option>
+                            <option value="cwe">CWE</option>
+                            <option value="rule">Rule</option>
+                            <option value="path">Path</option>
+                        </select>
+                    </label>
+                    <button id="clear-filters">Clear Filters</button>
+                </div>
+
+                <div id="selection-bar" class="selection-bar" style="display:none;">
+                    <span id="selection-count"></span>
+                    <button id="bulk-issue" class="action-button action-issue">Issue</button>
+                    <button id="bulk-fp" class="action-button action-fp">False Positive</button>
+                    <button id="bulk-untriaged">Untriaged</button>
+                    <button id="bulk-fix" title="Apply the suggested fixes of the selected findings">Apply Fixes</button>
+                    <button id="bulk-clear">Clear Selection</button>
+                </div>
+
                 <div id="loading-message" style="display:none;">Loading data...</div>
 
+                <section id="baseline-section" class="baseline-section" style="display:none;">
+                    <h2>Compared with <span id="baseline-label"></span>
+                        <button id="clear-baseline" class="heading-button">Close Comparison</button>
+                    </h2>
+                    <p id="baseline-summary" class="baseline-summary"></p>
+
+                    <h3>New (<span id="baselineNew-count">0</span>)</h3>
+                    <table id="baselineNew-table" class="result-table"></table>
+
+                    <h3>Still Present (<span id="baselineStill-count">0</span>)</h3>
+                    <table id="baselineStill-table" class="result-table"></table>
+
+                    <h3>Resolved (<span id="baselineResolved-count">0</span>)</h3>
+                    <table id="baselineResolved-table" class="result-table"></table>
+                </section>
+
+                <section id="rapid-pane" class="rapid-pane" style="display:none;" tabindex="-1"></section>
+
                 <div id="app-container">
                     
                     <h2 id="untriaged-heading">Untriaged Items (<span id="untriaged-count">0</span>)</h2>
@@ -325,177 +1890,22 @@ export class SemgrepResultsPanel {
                     <h2 id="issues-heading">Issues (<span id="issues-count">0</span>)</h2>
                     <table id="issues-table" class="result-table"></table>
 
-                    <h2 id="falsePositives-heading">False Positives (<span id="falsePositives-count">0</span>)</h2>
+                    <h2 id="falsePositives-heading">False Positives (<span id="falsePositives-count">0</span>)
+                        <button id="suppress-all" class="heading-button" title="Insert nosemgrep comments above all false positives">Add nosemgrep Comments</button>
+                    </h2>
                     <table id="falsePositives-table" class="result-table"></table>
 
+                    <h2 id="fixed-heading">Fixed (<span id="fixed-count">0</span>)</h2>
+                    <table id="fixed-table" class="result-table"></table>
+
                 </div>
 
-                <script nonce="${nonce}">
-                    const vscode = acquireVsCodeApi();
-                    let results = {
-                        untriaged: [],
-                        issues: [],
-                        falsePositives: []
-                    };
-                    
-                    // --- Utility Functions ---
-
-                    /**
-                     * Renders a single table row (tr)
-                     */
-                    function createRow(item, currentCategory) {
-                        const tr = document.createElement('tr');
-                        
-                        // check_id
-                        tr.innerHTML += \`<td title="\${item.check_id}">\${item.check_id}</td>\`;
-                        
-                        // message
-                        tr.innerHTML += \`<td title="\${item.extra.message}">\${item.extra.message}</td>\`;
-                        
-                        // severity
-                        tr.innerHTML += \`<td class="severity-\${item.extra.severity}">\${item.extra.severity}</td>\`;
-                        
-                        // path
-                        tr.innerHTML += \`<td title="\${item.path}">\${item.path}</td>\`;
-                        
-                        // lines
-                        tr.innerHTML += \`<td class="lines-cell">\${item.extra.lines}</td>\`;
-
-                        // Actions (buttons)
-                        const actionsTd = document.createElement('td');
-                        actionsTd.classList.add('actions');
-                    
+                <aside id="details-pane" class="details-pane" style="display:none;">
+                    <button id="details-close" class="details-close" title="Close">✕</button>
+                    <div id="details-content"></div>
+                </aside>
 
-                        // Go To Button
-                        const goToBtn = document.createElement('button');
-                        goToBtn.className = "action-button";
-                        goToBtn.textContent = 'Go To';
-                        goToBtn.onclick = () => {
-                            selected_items = document.getElementsByClassName("selected");
-                            Array.from(document.querySelectorAll('.selected')).forEach(
-                                (el) => el.classList.remove('selected')
-                            );
-                            tr.className = "selected";
-                            vscode.postMessage({
-                                command: 'goTo',
-                                data: {
-                                    path: item.path,
-                                    line: item.start.line,
-                                    col: item.start.col
-                                }
-                            });
-                        };
-                        actionsTd.appendChild(goToBtn);
-
-                        // Issue Button (show only if NOT already in Issues)
-                        if (currentCategory !== 'issues') {
-                            const issueBtn = document.createElement('button');
-                            issueBtn.className = "action-button action-issue";
-                            issueBtn.textContent = 'Issue';
-                            issueBtn.onclick = () => triageItem(item.id, currentCategory, 'issues');
-                            actionsTd.appendChild(issueBtn);
-                        }
-                        
-                        // False Positive Button (show only if NOT already in False Positives)
-                        if (currentCategory !== 'falsePositives') {
-                            const fpBtn = document.createElement('button');
-                            fpBtn.className = "action-button action-fp";
-                            fpBtn.textContent = 'False Positive';
-                            fpBtn.onclick = () => triageItem(item.id, currentCategory, 'falsePositives');
-                            actionsTd.appendChild(fpBtn);
-                        }
-
-                        // Untriaged Button (show only if NOT already in Untriaged)
-                        if (currentCategory !== 'untriaged') {
-                            const untriagedBtn = document.createElement('button');
-                            untriagedBtn.textContent = 'Untriaged';
-                            untriagedBtn.onclick = () => triageItem(item.id, currentCategory, 'untriaged');
-                            actionsTd.appendChild(untriagedBtn);
-                        }
-                        
-                        tr.appendChild(actionsTd);
-                        return tr;
-                    }
-
-                    /**
-                     * Renders a full table
-                     */
-                    function renderTable(category) {
-                        const table = document.getElementById(\`\${category}-table\`);
-                        const countSpan = document.getElementById(\`\${category}-count\`);
-                        
-                        // Clear existing content
-                        table.innerHTML = ''; 
-
-                        // Update count
-                        countSpan.textContent = results[category].length;
-
-                        // Create header row
-                        const thead = table.createTHead();
-                        const headerRow = thead.insertRow();
-                        const headers = ['check_id', 'message', 'severity', 'path', 'lines', 'Actions'];
-                        headers.forEach(text => {
-                            const th = document.createElement('th');
-                            th.textContent = text;
-                            headerRow.appendChild(th);
-                        });
-
-                        // Create body
-                        const tbody = document.createElement('tbody');
-                        results[category].forEach(item => {
-                            tbody.appendChild(createRow(item, category));
-                        });
-                        table.appendChild(tbody);
-                    }
-
-                    /**
-                     * Renders all tables
-                     */
-                    function renderAllTables() {
-                        renderTable('untriaged');
-                        renderTable('issues');
-                        renderTable('falsePositives');
-                    }
-
-                    /**
-                     * Sends a triage message to the extension
-                     */
-                    function triageItem(id, from, to) {
-                        vscode.postMessage({
-                            command: 'triage',
-                            data: { id, from, to }
-                        });
-                    }
-
-                    // --- Event Listeners and Handlers ---
-
-                    window.addEventListener('message', event => {
-                        const message = event.data;
-                        switch (message.command) {
-                            case 'updateView':
-                                // Received new data from extension (initial load, triage, or progress load)
-                                results = message.data;
-                                renderAllTables();
-                                break;
-                        }
-                    });
-
-                    document.getElementById('save-progress').addEventListener('click', () => {
-                        vscode.postMessage({
-                            command: 'save',
-                            data: results // Send current state to extension for saving
-                        });
-                    });
-
-                    document.getElementById('load-progress').addEventListener('click', () => {
-                        vscode.postMessage({
-                            command: 'load' // Request extension to prompt user and load file
-                        });
-                    });
-
-                    // Inform the extension that the webview is ready to receive initial data
-                    vscode.postMessage({ command: 'initialized' });
-                </script>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
             </body>
             </html>`;
     }
@@ -511,4 +1921,11 @@ function getNonce() {
         text += possible.charAt(Math.floor(Math.random() * possible.length));
     }
     return text;
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the range of the full lines of a finding, which Semgrep reports as `extra.lines`.
+ */
+function findingLines(item: SemgrepResult): vscode.Range {
+    return new vscode.Range(item.start.line - 1, 0, item.end.line, 0);
+}
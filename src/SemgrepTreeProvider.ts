@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import { SemgrepResultsPanel } from './SemgrepResultsPanel';
+import { CATEGORY_PLURAL_LABELS, SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults, effectiveSeverity } from './types';
+
+/**
+ * Severities from the most to the least severe.
+ */
+const SEVERITY_ORDER = ['ERROR', 'WARNING', 'INFO'];
+
+/**
+ * A node of the findings tree: category → rule → file → finding.
+ */
+export type TreeNode =
+    | { kind: 'category', category: TriageCategory }
+    | { kind: 'rule', category: TriageCategory, rule: string }
+    | { kind: 'file', category: TriageCategory, rule: string, path: string }
+    | { kind: 'finding', category: TriageCategory, item: SemgrepResult };
+
+/**
+ * Findings of every category by rule, then by file.
+ */
+type FindingIndex = Record<TriageCategory, Map<string, Map<string, SemgrepResult[]>>>;
+
+/**
+ * Shows the findings of the triage panel in the sidebar, grouped by
+ * category, rule and file. The panel's results are the only state, so
+ * triage actions taken here or in the webview show up in both.
+ */
+export class SemgrepTreeProvider implements vscode.TreeDataProvider<TreeNode>, vscode.Disposable {
+    public static readonly viewId = 'semgrepTriage.findings';
+
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<TreeNode | undefined>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _disposables: vscode.Disposable[] = [];
+    // Panel whose results are shown
+    private _panel: SemgrepResultsPanel | undefined;
+    // Built from the panel's results on first use after every change
+    private _index: FindingIndex | undefined;
+
+    constructor() {
+        const view = vscode.window.createTreeView(SemgrepTreeProvider.viewId, {
+            treeDataProvider: this,
+            canSelectMany: true,
+            showCollapseAll: true
+        });
+        this._disposables.push(
+            view,
+            this._onDidChangeTreeData,
+            SemgrepResultsPanel.onDidChangeResults(({ panel }) => {
+                this._panel = panel;
+                this._index = undefined;
+                view.description = panel ? `${panel.results.untriaged.length} untriaged` : undefined;
+                this._onDidChangeTreeData.fire(undefined);
+            })
+        );
+    }
+
+    /**
+     * Returns the IDs of all findings below a node.
+     */
+    public static findingIds(node: TreeNode): string[] {
+        const results = SemgrepResultsPanel.currentPanel?.results;
+        return results ? findingsOf(indexFindings(results), node).map(item => item.id) : [];
+    }
+
+    public getChildren(node?: TreeNode): TreeNode[] {
+        const index = this._getIndex();
+        if (!index) {
+            return []; // Shows the welcome view
+        }
+        if (!node) {
+            return TRIAGE_CATEGORIES.map(category => ({ kind: 'category', category }));
+        }
+
+        switch (node.kind) {
+            case 'category':
+                return Array.from(index[node.category].entries())
+                    .map(([rule, files]): [string, number] => [rule, countFindings(files)])
+                    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+                    .map(([rule]) => ({ kind: 'rule', category: node.category, rule }));
+            case 'rule':
+                return Array.from(index[node.category].get(node.rule)?.keys() ?? []).sort()
+                    .map(path => ({ kind: 'file', category: node.category, rule: node.rule, path }));
+            case 'file':
+                return [...findingsOf(index, node)]
+                    .sort((a, b) => a.start.line - b.start.line)
+                    .map(item => ({ kind: 'finding', category: node.category, item }));
+            case 'finding':
+                return [];
+        }
+    }
+
+    public getTreeItem(node: TreeNode): vscode.TreeItem {
+        if (node.kind === 'finding') {
+            const { item } = node;
+            const treeItem = new vscode.TreeItem(`${item.start.line}: ${item.extra.message}`, vscode.TreeItemCollapsibleState.None);
+            treeItem.description = [item.verdict, item.stale ? 'stale' : undefined].filter(label => label).join(' · ') || undefined;
+            treeItem.tooltip = new vscode.MarkdownString()
+                .appendMarkdown(`**${item.check_id}** · ${effectiveSeverity(item)}\n\n`)
+                .appendText(item.extra.message)
+                .appendCodeblock(item.extra.lines);
+            if (item.note) {
+                treeItem.tooltip.appendMarkdown('\n\n**Justification:** ').appendText(item.note);
+            }
+            treeItem.iconPath = severityIcon(effectiveSeverity(item));
+            treeItem.contextValue = `finding-${node.category}`;
+            treeItem.command = {
+                title: 'Go To',
+                command: 'semgrep-triage.goToFinding',
+                arguments: [node]
+            };
+            return treeItem;
+        }
+
+        const index = this._getIndex();
+        const items = index ? findingsOf(index, node) : [];
+        const collapsed = node.kind === 'category' && node.category !== 'untriaged'
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.Expanded;
+
+        let treeItem: vscode.TreeItem;
+        if (node.kind === 'category') {
+            treeItem = new vscode.TreeItem(CATEGORY_PLURAL_LABELS[node.category], items.length > 0 ? collapsed : vscode.TreeItemCollapsibleState.None);
+        } else if (node.kind === 'rule') {
+            treeItem = new vscode.TreeItem(node.rule, vscode.TreeItemCollapsibleState.Collapsed);
+            treeItem.iconPath = severityIcon(highestSeverity(items));
+        } else {
+            treeItem = new vscode.TreeItem(vscode.Uri.file(this._panel?.resolvePath(node.path) ?? node.path), vscode.TreeItemCollapsibleState.Collapsed);
+            treeItem.label = node.path;
+            treeItem.iconPath = vscode.ThemeIcon.File;
+        }
+
+        // IDs keep the expansion state across refreshes
+        treeItem.id = node.kind === 'category'
+            ? node.category
+            : node.kind === 'rule' ? `${node.category}/${node.rule}` : `${node.category}/${node.rule}/${node.path}`;
+        treeItem.description = `${items.length}`;
+        treeItem.contextValue = `group-${node.category}`;
+        return treeItem;
+    }
+
+    private _getIndex(): FindingIndex | undefined {
+        if (!this._index && this._panel) {
+            this._index = indexFindings(this._panel.results);
+        }
+        return this._index;
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+}
+
+/**
+ * Groups the findings of every category by rule and file, in one pass.
+ */
+function indexFindings(results: TriageResults): FindingIndex {
+    const index = {} as FindingIndex;
+    for (const category of TRIAGE_CATEGORIES) {
+        const rules = new Map<string, Map<string, SemgrepResult[]>>();
+        for (const item of results[category]) {
+            const files = rules.get(item.check_id) ?? new Map<string, SemgrepResult[]>();
+            rules.set(item.check_id, files);
+            const items = files.get(item.path);
+            if (items) {
+                items.push(item);
+            } else {
+                files.set(item.path, [item]);
+            }
+        }
+        index[category] = rules;
+    }
+    return index;
+}
+
+/**
+ * Returns the findings below a node.
+ */
+function findingsOf(index: FindingIndex, node: TreeNode): SemgrepResult[] {
+    switch (node.kind) {
+        case 'finding':
+            return [node.item];
+        case 'file':
+            return index[node.category].get(node.rule)?.get(node.path) ?? [];
+        case 'rule':
+            return Array.from(index[node.category].get(node.rule)?.values() ?? []).flat();
+        case 'category':
+            return Array.from(index[node.category].values()).flatMap(files => Array.from(files.values()).flat());
+    }
+}
+
+function countFindings(files: Map<string, SemgrepResult[]>): number {
+    return Array.from(files.values()).reduce((sum, items) => sum + items.length, 0);
+}
+
+function highestSeverity(items: SemgrepResult[]): string {
+    const severities = items.map(effectiveSeverity);
+    return SEVERITY_ORDER.find(severity => severities.includes(severity)) ?? 'INFO';
+}
+
+function severityIcon(severity: string): vscode.ThemeIcon {
+    switch (severity) {
+        case 'ERROR':
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        case 'WARNING':
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        default:
+            return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+    }
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ProgressFile, parseProgressFile } from './progress';
+
+/**
+ * Persists the triage state of each results file in the extension's
+ * workspace storage, so that work survives closing the panel or a reload.
+ */
+export class SessionStore {
+    // Writes in flight, so that a session reopened right away loads the latest state
+    private static readonly _pendingWrites = new Map<string, Promise<void>>();
+
+    private readonly _directory: vscode.Uri;
+
+    constructor(context: vscode.ExtensionContext) {
+        // Workspace storage is missing when no folder is open
+        this._directory = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'sessions');
+    }
+
+    /**
+     * Saves the triage state of a results file.
+     */
+    public async save(sourcePath: string, progress: ProgressFile) {
+        const uri = this._uriFor(sourcePath);
+        const previous = SessionStore._pendingWrites.get(uri.toString()) ?? Promise.resolve();
+        const write = previous.catch(() => undefined).then(async () => {
+            await vscode.workspace.fs.createDirectory(this._directory);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(progress)));
+        });
+
+        SessionStore._pendingWrites.set(uri.toString(), write);
+        try {
+            await write;
+        } finally {
+            if (SessionStore._pendingWrites.get(uri.toString()) === write) {
+                SessionStore._pendingWrites.delete(uri.toString());
+            }
+        }
+    }
+
+    /**
+     * Loads the saved triage state of a results file, if there is a valid one.
+     */
+    public async load(sourcePath: string): Promise<ProgressFile | undefined> {
+        const uri = this._uriFor(sourcePath);
+        try {
+            await SessionStore._pendingWrites.get(uri.toString());
+            const fileData = await vscode.workspace.fs.readFile(uri);
+            return parseProgressFile(JSON.parse(Buffer.from(fileData).toString('utf8')));
+        } catch {
+            return undefined; // Nothing saved yet, or unreadable
+        }
+    }
+
+    /**
+     * Returns the storage location for a results file.
+     */
+    private _uriFor(sourcePath: string): vscode.Uri {
+        const key = crypto.createHash('sha256').update(sourcePath).digest('hex').substring(0, 32);
+        return vscode.Uri.joinPath(this._directory, `${key}.json`);
+    }
+}
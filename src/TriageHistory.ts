@@ -0,0 +1,150 @@
+import { SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults } from './types';
+
+/**
+ * The triage related state of a single finding.
+ */
+export interface FindingState {
+    category: TriageCategory;
+    note?: string;
+    verdict?: string;
+    severityOverride?: string;
+}
+
+/**
+ * The state of a finding before and after an operation.
+ */
+export interface TriageChange {
+    id: string;
+    before: FindingState;
+    after: FindingState;
+}
+
+/**
+ * A user action that can be undone as a whole, e.g. a bulk triage.
+ */
+export interface TriageOperation {
+    label: string;
+    changes: TriageChange[];
+}
+
+/**
+ * Undo and redo stacks of triage operations.
+ */
+export class TriageHistory {
+    private static readonly _limit = 200;
+
+    private _undoStack: TriageOperation[] = [];
+    private _redoStack: TriageOperation[] = [];
+
+    /**
+     * Records a new operation, discarding everything that was undone.
+     */
+    public push(operation: TriageOperation) {
+        this._undoStack.push(operation);
+        if (this._undoStack.length > TriageHistory._limit) {
+            this._undoStack.shift();
+        }
+        this._redoStack = [];
+    }
+
+    /**
+     * Takes the last operation to undo.
+     */
+    public undo(): TriageOperation | undefined {
+        const operation = this._undoStack.pop();
+        if (operation) {
+            this._redoStack.push(operation);
+        }
+        return operation;
+    }
+
+    /**
+     * Takes the last undone operation to redo.
+     */
+    public redo(): TriageOperation | undefined {
+        const operation = this._redoStack.pop();
+        if (operation) {
+            this._undoStack.push(operation);
+        }
+        return operation;
+    }
+
+    public get nextUndo(): TriageOperation | undefined {
+        return this._undoStack[this._undoStack.length - 1];
+    }
+
+    public get nextRedo(): TriageOperation | undefined {
+        return this._redoStack[this._redoStack.length - 1];
+    }
+
+    public clear() {
+        this._undoStack = [];
+        this._redoStack = [];
+    }
+}
+
+/**
+ * Captures the triage state of all findings.
+ */
+export function snapshotResults(results: TriageResults): Map<string, FindingState> {
+    const snapshot = new Map<string, FindingState>();
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of results[category]) {
+            snapshot.set(item.id, stateOf(item, category));
+        }
+    }
+    return snapshot;
+}
+
+/**
+ * Lists the findings whose triage state differs between two snapshots.
+ */
+export function diffSnapshots(before: Map<string, FindingState>, after: Map<string, FindingState>): TriageChange[] {
+    const changes: TriageChange[] = [];
+    for (const [id, afterState] of after) {
+        const beforeState = before.get(id);
+        if (beforeState && !sameState(beforeState, afterState)) {
+            changes.push({ id, before: beforeState, after: afterState });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Puts the changed findings back into their state before or after the changes.
+ */
+export function applyChanges(results: TriageResults, changes: TriageChange[], target: 'before' | 'after') {
+    const located = new Map<string, { item: SemgrepResult, category: TriageCategory }>();
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of results[category]) {
+            located.set(item.id, { item, category });
+        }
+    }
+
+    for (const change of changes) {
+        const found = located.get(change.id);
+        if (!found) {
+            continue; // The finding is gone, e.g. after loading other progress
+        }
+        const state = change[target];
+        const { item, category } = found;
+        if (category !== state.category) {
+            results[category].splice(results[category].indexOf(item), 1);
+            results[state.category].push(item);
+        }
+        item.note = state.note;
+        item.verdict = state.verdict;
+        item.severityOverride = state.severityOverride;
+    }
+}
+
+function stateOf(item: SemgrepResult, category: TriageCategory): FindingState {
+    return { category, note: item.note, verdict: item.verdict, severityOverride: item.severityOverride };
+}
+
+function sameState(a: FindingState, b: FindingState): boolean {
+    return a.category === b.category
+        && a.note === b.note
+        && a.verdict === b.verdict
+        && a.severityOverride === b.severityOverride;
+}
@@ -0,0 +1,36 @@
+import * as os from 'os';
+import { execFile } from 'child_process';
+
+let cachedUser: Promise<string> | undefined;
+
+/**
+ * Resolves the name recorded in the audit trail: the git `user.name`
+ * (and `user.email` when set), falling back to the OS user.
+ */
+export function getAuditUser(cwd: string): Promise<string> {
+    if (!cachedUser) {
+        cachedUser = Promise.all([gitConfig('user.name', cwd), gitConfig('user.email', cwd)])
+            .then(([name, email]) => {
+                if (name) {
+                    return email ? `${name} <${email}>` : name;
+                }
+                try {
+                    return os.userInfo().username;
+                } catch {
+                    return 'unknown';
+                }
+            });
+    }
+    return cachedUser;
+}
+
+/**
+ * Reads a git config value, resolving to an empty string when git or the value is missing.
+ */
+function gitConfig(key: string, cwd: string): Promise<string> {
+    return new Promise(resolve => {
+        execFile('git', ['config', '--get', key], { cwd, timeout: 5000 }, (error, stdout) => {
+            resolve(error ? '' : stdout.trim());
+        });
+    });
+}
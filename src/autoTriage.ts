@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { matchesGlob } from './glob';
+import { TriageResults } from './types';
+
+/**
+ * A persisted rule that triages matching findings automatically.
+ */
+export interface AutoTriagePolicy {
+    // Rule ID, `*` matches any sequence of characters
+    rule: string;
+    // Optional path glob the finding must be located under
+    path?: string;
+    verdict: 'issues' | 'falsePositives';
+}
+
+const CONFIG_SECTION = 'semgrepTriage';
+const POLICIES_KEY = 'autoTriagePolicies';
+
+/**
+ * Reads the configured auto-triage policies, skipping malformed entries.
+ */
+export function getAutoTriagePolicies(): AutoTriagePolicy[] {
+    const policies = vscode.workspace.getConfiguration(CONFIG_SECTION).get<any[]>(POLICIES_KEY) ?? [];
+    return policies.filter(p => p
+        && typeof p.rule === 'string'
+        && (p.verdict === 'issues' || p.verdict === 'falsePositives')
+        && (p.path === undefined || typeof p.path === 'string'));
+}
+
+/**
+ * Appends a policy to the workspace configuration, or to the user
+ * configuration when no folder is open, without copying the user's
+ * policies into the workspace.
+ */
+export async function addAutoTriagePolicy(policy: AutoTriagePolicy) {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const inspected = config.inspect<AutoTriagePolicy[]>(POLICIES_KEY);
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    const policies = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+    await config.update(POLICIES_KEY, [...policies, policy], target);
+}
+
+/**
+ * Moves the untriaged findings matched by a policy into the policy's
+ * category. The first matching policy wins. False positives without a note
+ * are justified by the policy. Returns the number of moved findings.
+ */
+export function applyAutoTriagePolicies(results: TriageResults, policies: AutoTriagePolicy[]): number {
+    if (policies.length === 0) {
+        return 0;
+    }
+
+    const rules = policies.map(p => ruleToRegExp(p.rule));
+    let moved = 0;
+
+    results.untriaged = results.untriaged.filter(item => {
+        const index = policies.findIndex((p, i) => rules[i].test(item.check_id) && (!p.path || matchesGlob(item.path, p.path)));
+        if (index === -1) {
+            return true;
+        }
+        const policy = policies[index];
+        if (policy.verdict === 'falsePositives' && !item.note) {
+            item.note = `Auto-triage policy ${policy.rule}` + (policy.path ? ` under ${policy.path}` : '');
+        }
+        results[policy.verdict].push(item);
+        moved++;
+        return false;
+    });
+
+    return moved;
+}
+
+/**
+ * Converts a rule ID pattern into a regular expression.
+ */
+function ruleToRegExp(rule: string): RegExp {
+    const source = rule.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp('^' + source + '$');
+}
@@ -0,0 +1,96 @@
+import { SemgrepResult } from './types';
+
+/**
+ * Returns whether Semgrep suggested a fix for a finding.
+ */
+export function hasFix(result: SemgrepResult): boolean {
+    return typeof result.extra.fix === 'string' || !!result.extra.fix_regex;
+}
+
+/**
+ * Computes the replacement of the matched code. A `fix` replaces the whole
+ * match, a `fix_regex` replaces occurrences of the regex within it. Returns
+ * undefined when the finding has no fix or its regex is invalid.
+ */
+export function fixedText(matched: string, result: SemgrepResult): string | undefined {
+    if (typeof result.extra.fix === 'string') {
+        return result.extra.fix;
+    }
+    const fixRegex = result.extra.fix_regex;
+    if (!fixRegex) {
+        return undefined;
+    }
+
+    // Semgrep uses Python regexes, whose named groups are written differently
+    let regex: RegExp;
+    try {
+        regex = new RegExp(fixRegex.regex.replace(/\(\?P</g, '(?<').replace(/\(\?P=(\w+)\)/g, '\\k<$1>'), 'g');
+    } catch {
+        return undefined;
+    }
+
+    // A count of 0 or none replaces every occurrence, like Python's re.sub
+    let remaining = fixRegex.count && fixRegex.count > 0 ? fixRegex.count : Infinity;
+    return matched.replace(regex, (...args: any[]) => {
+        if (remaining <= 0) {
+            return args[0];
+        }
+        remaining--;
+        const groups = typeof args[args.length - 1] === 'object' ? args[args.length - 1] : undefined;
+        const captures = args.slice(0, groups ? -3 : -2);
+        return expandReplacement(fixRegex.replacement, captures, groups);
+    });
+}
+
+/**
+ * Applies the fix of a finding to the content of its file. Returns undefined
+ * when there is no fix.
+ */
+export function applyFix(text: string, result: SemgrepResult): string | undefined {
+    const start = offsetOf(text, result.start.line, result.start.col);
+    const end = Math.max(start, offsetOf(text, result.end.line, result.end.col));
+    const replacement = fixedText(text.substring(start, end), result);
+    return replacement === undefined ? undefined : text.substring(0, start) + replacement + text.substring(end);
+}
+
+/**
+ * Checks that the lines of a finding still hold the code Semgrep reported,
+ * ignoring whitespace, so that fixes are not applied to code that changed
+ * since the scan. Findings without code (e.g. "requires login") pass.
+ */
+export function matchesReportedCode(lines: string, result: SemgrepResult): boolean {
+    const reported = result.extra.lines.trim();
+    if (!reported || reported === 'requires login') {
+        return true;
+    }
+    return lines.replace(/\s+/g, '') === reported.replace(/\s+/g, '');
+}
+
+/**
+ * Expands the group references of a Python replacement string, `\1` or `\g<name>`.
+ */
+function expandReplacement(replacement: string, captures: (string | undefined)[], groups?: Record<string, string | undefined>): string {
+    return replacement.replace(/\\(?:g<(\w+)>|(\d+)|(.))/g, (escape, name: string | undefined, index: string | undefined, char: string | undefined) => {
+        const reference = name ?? index;
+        if (reference !== undefined) {
+            return (/^\d+$/.test(reference) ? captures[Number(reference)] : groups?.[reference]) ?? '';
+        }
+        return ({ n: '\n', t: '\t', '\\': '\\' } as Record<string, string>)[char!] ?? escape;
+    });
+}
+
+/**
+ * Converts a 1-based line and column into an offset in the text.
+ */
+function offsetOf(text: string, line: number, col: number): number {
+    let offset = 0;
+    for (let i = 1; i < line; i++) {
+        const next = text.indexOf('\n', offset);
+        if (next < 0) {
+            return text.length;
+        }
+        offset = next + 1;
+    }
+    const lineEnd = text.indexOf('\n', offset);
+    return Math.min(offset + Math.max(0, col - 1), lineEnd < 0 ? text.length : lineEnd);
+}
@@ -0,0 +1,61 @@
+import { fingerprintResult } from './fingerprint';
+import { SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults } from './types';
+
+/**
+ * A current finding that was already reported by the baseline.
+ */
+export interface StillPresentFinding {
+    id: string;
+    // The finding as triaged in the baseline
+    baseline: SemgrepResult;
+    baselineCategory: TriageCategory;
+}
+
+/**
+ * A baseline finding that is no longer reported.
+ */
+export interface ResolvedFinding {
+    item: SemgrepResult;
+    category: TriageCategory;
+}
+
+/**
+ * Current findings sorted by their status relative to a baseline.
+ */
+export interface BaselineComparison {
+    // IDs of the current findings the baseline did not report
+    newIds: string[];
+    stillPresent: StillPresentFinding[];
+    resolved: ResolvedFinding[];
+}
+
+/**
+ * Compares the current findings with a baseline session or scan. Findings
+ * are matched by fingerprint, so moved code still counts as present.
+ * Identical findings are matched in order.
+ */
+export function compareWithBaseline(current: TriageResults, baseline: TriageResults): BaselineComparison {
+    const unmatched = new Map<string, ResolvedFinding[]>();
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of baseline[category]) {
+            const fingerprint = fingerprintResult(item);
+            const list = unmatched.get(fingerprint) ?? [];
+            list.push({ item, category });
+            unmatched.set(fingerprint, list);
+        }
+    }
+
+    const comparison: BaselineComparison = { newIds: [], stillPresent: [], resolved: [] };
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of current[category]) {
+            const match = unmatched.get(fingerprintResult(item))?.shift();
+            if (match) {
+                comparison.stillPresent.push({ id: item.id, baseline: match.item, baselineCategory: match.category });
+            } else {
+                comparison.newIds.push(item.id);
+            }
+        }
+    }
+    comparison.resolved = Array.from(unmatched.values()).flat();
+    return comparison;
+}
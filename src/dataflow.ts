@@ -0,0 +1,81 @@
+import { SemgrepResult } from './types';
+
+/**
+ * A step of a taint trace, from the source over the intermediate variables to the sink.
+ */
+export interface DataflowStep {
+    kind: 'source' | 'intermediate' | 'sink';
+    path: string;
+    start: { line: number; col: number; };
+    end: { line: number; col: number; };
+    // The code at the location
+    content: string;
+}
+
+/**
+ * Flattens the `extra.dataflow_trace` of a taint-mode finding into its steps,
+ * in the order the data flows. Cross-function traces (`CliCall`) list the
+ * call site, the variables inside the callee and the nested location.
+ * Findings without a trace have no steps.
+ */
+export function dataflowSteps(result: SemgrepResult): DataflowStep[] {
+    const trace = result.extra.dataflow_trace;
+    if (!trace || typeof trace !== 'object') {
+        return [];
+    }
+    return [
+        ...callTraceSteps(trace.taint_source, 'source'),
+        ...variableSteps(trace.intermediate_vars),
+        ...callTraceSteps(trace.taint_sink, 'sink')
+    ];
+}
+
+/**
+ * Steps of a `["CliLoc", [location, content]]` or
+ * `["CliCall", [[location, content], intermediate_vars, call_trace]]` trace.
+ */
+function callTraceSteps(trace: any, kind: DataflowStep['kind']): DataflowStep[] {
+    if (!Array.isArray(trace) || !Array.isArray(trace[1])) {
+        return [];
+    }
+    if (trace[0] === 'CliLoc') {
+        const step = toStep(trace[1][0], trace[1][1], kind);
+        return step ? [step] : [];
+    }
+    if (trace[0] === 'CliCall') {
+        const [call, variables, nested] = trace[1];
+        const callStep = Array.isArray(call) ? toStep(call[0], call[1], 'intermediate') : undefined;
+        const nestedSteps = callTraceSteps(nested, kind);
+        // The call site comes first for sources and last for sinks
+        return kind === 'sink'
+            ? [...(callStep ? [callStep] : []), ...variableSteps(variables), ...nestedSteps]
+            : [...nestedSteps, ...variableSteps(variables), ...(callStep ? [callStep] : [])];
+    }
+    return [];
+}
+
+function variableSteps(variables: any): DataflowStep[] {
+    if (!Array.isArray(variables)) {
+        return [];
+    }
+    return variables
+        .map(variable => toStep(variable?.location, variable?.content, 'intermediate'))
+        .filter(step => step) as DataflowStep[];
+}
+
+function toStep(location: any, content: any, kind: DataflowStep['kind']): DataflowStep | undefined {
+    if (typeof location?.path !== 'string' || !isPosition(location.start) || !isPosition(location.end)) {
+        return undefined;
+    }
+    return {
+        kind,
+        path: location.path,
+        start: { line: location.start.line, col: location.start.col },
+        end: { line: location.end.line, col: location.end.col },
+        content: typeof content === 'string' ? content : ''
+    };
+}
+
+function isPosition(value: any): boolean {
+    return typeof value?.line === 'number' && typeof value?.col === 'number';
+}
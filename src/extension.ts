@@ -1,5 +1,12 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import { SemgrepResultsPanel } from './SemgrepResultsPanel';
+import { SemgrepDiagnostics } from './SemgrepDiagnostics';
+import { SemgrepTreeProvider, TreeNode } from './SemgrepTreeProvider';
+import { FixPreview } from './FixPreview';
+import { mergeTriageFiles } from './sharedTriage';
+import { readResultsFile, tagSource } from './resultsFile';
+import { SemgrepScanError, buildScanArgs, formatScanError, getScanOptions, runSemgrep } from './semgrepRunner';
 
 /**
  * Activates the extension.
@@ -9,53 +16,219 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register the command to open the results panel
 	let disposable = vscode.commands.registerCommand('semgrep-triage.openResults', async () => {
 		
-		// Prompt user to select a Semgrep results JSON file
+		// Prompt user to select one or more Semgrep results JSON or SARIF files
 		const uri = await vscode.window.showOpenDialog({
 			canSelectFiles: true,
 			canSelectFolders: false,
-			canSelectMany: false,
+			canSelectMany: true,
 			filters: {
-				'JSON Files': ['json']
+				'Semgrep Results': ['json', 'sarif']
 			},
-			title: 'Select Semgrep Results JSON File'
+			title: 'Select Semgrep Results Files'
 		});
 
 		if (uri && uri.length > 0) {
 			const filePath = uri[0].fsPath;
 			
 			try {
-				// Read the file content
-				const fileData = await vscode.workspace.fs.readFile(uri[0]);
-				const content = Buffer.from(fileData).toString('utf8');
-				const resultsJson = JSON.parse(content);
-
-				if (resultsJson && Array.isArray(resultsJson.results)) {
-					// Create and show the Webview panel, passing the parsed results
-					SemgrepResultsPanel.createOrShow(context.extensionUri, resultsJson.results, filePath);
-				} else {
-					vscode.window.showErrorMessage('Invalid Semgrep results format: "results" array not found.');
-				}
+				// Create and show the Webview panel, passing the parsed results
+				SemgrepResultsPanel.createOrShow(context, await readResultsFile(uri[0]), filePath);
 			} catch (e: any) {
 				vscode.window.showErrorMessage(`Failed to read or parse file: ${e.message}`);
+				return;
+			}
+
+			// The session is kept for the first file, the others are merged into it
+			if (uri.length > 1) {
+				await SemgrepResultsPanel.currentPanel?.addResultsFiles(uri.slice(1));
 			}
 		}
 	});
 
+	let addResults = vscode.commands.registerCommand('semgrep-triage.addResults', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.addResultsFiles();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
 	let disposable2 = vscode.commands.registerCommand('semgrep-triage.openEmpty', async () => {
 		
 		const resultsJson = {results:[]}
 
 		if (resultsJson && Array.isArray(resultsJson.results)) {
 			// Create and show the Webview panel, passing the parsed results
-			SemgrepResultsPanel.createOrShow(context.extensionUri, resultsJson.results, "");
+			SemgrepResultsPanel.createOrShow(context, resultsJson.results, "");
 		} else {
 			vscode.window.showErrorMessage('Invalid Semgrep results format: "results" array not found.');
 		}
 
 	});
 
+	// Triage actions offered by the CodeLenses (with a finding ID) and the
+	// sidebar context menu (with the clicked and the selected tree nodes), and undo/redo
+	const targetIds = (target: string | TreeNode, selected?: TreeNode[]) => typeof target === 'string'
+		? [target]
+		: (selected && selected.length > 0 ? selected : [target]).flatMap(SemgrepTreeProvider.findingIds);
+	const triageCommands = [
+		vscode.commands.registerCommand('semgrep-triage.markIssue', (target: string | TreeNode, selected?: TreeNode[]) =>
+			SemgrepResultsPanel.currentPanel?.triage(targetIds(target, selected), 'issues')),
+		vscode.commands.registerCommand('semgrep-triage.markFalsePositive', (target: string | TreeNode, selected?: TreeNode[]) =>
+			SemgrepResultsPanel.currentPanel?.triage(targetIds(target, selected), 'falsePositives')),
+		vscode.commands.registerCommand('semgrep-triage.resetTriage', (target: string | TreeNode, selected?: TreeNode[]) =>
+			SemgrepResultsPanel.currentPanel?.triage(targetIds(target, selected), 'untriaged')),
+		vscode.commands.registerCommand('semgrep-triage.addSuppression', (target: string | TreeNode, selected?: TreeNode[]) =>
+			SemgrepResultsPanel.currentPanel?.addSuppressions(targetIds(target, selected))),
+		vscode.commands.registerCommand('semgrep-triage.previewFix', (target: string | TreeNode) => {
+			const [id] = targetIds(target);
+			if (id) {
+				SemgrepResultsPanel.currentPanel?.previewFix(id);
+			}
+		}),
+		vscode.commands.registerCommand('semgrep-triage.applyFix', (target: string | TreeNode, selected?: TreeNode[]) =>
+			SemgrepResultsPanel.currentPanel?.applyFixes(targetIds(target, selected))),
+		vscode.commands.registerCommand('semgrep-triage.showDataflow', (id: string) =>
+			SemgrepResultsPanel.currentPanel?.showDataflow(id)),
+		vscode.commands.registerCommand('semgrep-triage.goToFinding', (node: TreeNode) => {
+			if (node.kind === 'finding') {
+				SemgrepResultsPanel.currentPanel?.goToLocation({ path: node.item.path, line: node.item.start.line, col: node.item.start.col });
+			}
+		}),
+		vscode.commands.registerCommand('semgrep-triage.undo', () => SemgrepResultsPanel.currentPanel?.undo()),
+		vscode.commands.registerCommand('semgrep-triage.redo', () => SemgrepResultsPanel.currentPanel?.redo())
+	];
+
+	let suppressFalsePositives = vscode.commands.registerCommand('semgrep-triage.suppressFalsePositives', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.addSuppressions();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
+	let compareBaseline = vscode.commands.registerCommand('semgrep-triage.compareWithBaseline', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.compareWithBaseline();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
+	let exportReport = vscode.commands.registerCommand('semgrep-triage.exportReport', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.exportReport();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
+	let saveSharedTriage = vscode.commands.registerCommand('semgrep-triage.saveSharedTriage', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.saveSharedTriage();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
+	let loadSharedTriage = vscode.commands.registerCommand('semgrep-triage.loadSharedTriage', async () => {
+		if (SemgrepResultsPanel.currentPanel) {
+			await SemgrepResultsPanel.currentPanel.loadSharedTriage();
+		} else {
+			vscode.window.showErrorMessage('Open a Semgrep results file first.');
+		}
+	});
+
+	// Merging works without a session; an open session takes over the merged decisions
+	let mergeTriage = vscode.commands.registerCommand('semgrep-triage.mergeTriageFiles', async () => {
+		const merged = await mergeTriageFiles();
+		if (merged && SemgrepResultsPanel.currentPanel) {
+			SemgrepResultsPanel.currentPanel.applySharedTriage(merged, 'merge triage files');
+		}
+	});
+
+	// Run Semgrep on the workspace and open its results
+	const scanOutput = vscode.window.createOutputChannel('Semgrep');
+	let runScan = vscode.commands.registerCommand('semgrep-triage.runScan', async () => {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		if (!folder) {
+			vscode.window.showErrorMessage('Open a folder to scan with Semgrep.');
+			return;
+		}
+
+		// Scans of the same targets write to the same file, so that the triage of
+		// the previous scan is restored from the autosave and carried over
+		const options = getScanOptions(folder.uri.fsPath);
+		const scanKey = crypto.createHash('sha256')
+			.update(JSON.stringify([options.cwd, options.configs, options.include, options.exclude, options.targets]))
+			.digest('hex').substring(0, 32);
+		const scansDirectory = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'scans');
+		const outputFile = vscode.Uri.joinPath(scansDirectory, `${scanKey}.json`).fsPath;
+
+		try {
+			await vscode.workspace.fs.createDirectory(scansDirectory);
+			scanOutput.appendLine(`> ${options.semgrepPath} ${buildScanArgs(options, outputFile).join(' ')}`);
+
+			const scan = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Semgrep',
+				cancellable: true
+			}, (progress, token) => {
+				progress.report({ message: 'Starting scan...' });
+				return runSemgrep(options, outputFile, token, line => {
+					scanOutput.appendLine(line);
+					progress.report({ message: line });
+				});
+			});
+
+			SemgrepResultsPanel.createOrShow(context, tagSource(scan.results, `semgrep scan (${options.configs.join(', ')})`), outputFile);
+
+			if (scan.errors.length > 0) {
+				scan.errors.forEach(error => scanOutput.appendLine(formatScanError(error)));
+				const choice = await vscode.window.showWarningMessage(
+					`Semgrep found ${scan.results.length} results but reported ${scan.errors.length} errors. Some files or rules may not have been scanned.`,
+					'Show Errors'
+				);
+				if (choice) {
+					scanOutput.show();
+				}
+			} else {
+				vscode.window.showInformationMessage(`Semgrep found ${scan.results.length} results.`);
+			}
+		} catch (e: any) {
+			if (e instanceof vscode.CancellationError) {
+				scanOutput.appendLine('Scan cancelled.');
+				vscode.window.showInformationMessage('Semgrep scan cancelled.');
+				return;
+			}
+			scanOutput.appendLine(e instanceof SemgrepScanError ? e.stderr || e.message : e.message);
+			const choice = await vscode.window.showErrorMessage(`Semgrep scan failed: ${e.message}`, 'Show Output');
+			if (choice) {
+				scanOutput.show();
+			}
+		}
+	});
+
+	// Restore the triage view after a window reload
+	const serializer = vscode.window.registerWebviewPanelSerializer(SemgrepResultsPanel.viewType, {
+		async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: any) {
+			SemgrepResultsPanel.revive(panel, context, state);
+		}
+	});
+
 	context.subscriptions.push(disposable);
 	context.subscriptions.push(disposable2);
+	context.subscriptions.push(addResults);
+	context.subscriptions.push(compareBaseline);
+	context.subscriptions.push(serializer);
+	context.subscriptions.push(exportReport);
+	context.subscriptions.push(saveSharedTriage, loadSharedTriage, mergeTriage);
+	context.subscriptions.push(suppressFalsePositives);
+	context.subscriptions.push(runScan, scanOutput);
+	context.subscriptions.push(...triageCommands);
+	context.subscriptions.push(new SemgrepDiagnostics());
+	context.subscriptions.push(new SemgrepTreeProvider());
+	context.subscriptions.push(new FixPreview());
 }
 
 // This method is called when your extension is deactivated
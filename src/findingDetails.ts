@@ -0,0 +1,26 @@
+import { SemgrepResult, TriageCategory } from './types';
+
+/**
+ * The fields of the details form of a finding.
+ */
+export interface FindingDetails {
+    note?: string;
+    verdict?: string;
+    severityOverride?: string;
+}
+
+/**
+ * Applies the details form to a finding. When justifications are required,
+ * a false positive keeps its note instead of losing it to an empty one.
+ * Returns false when the note was kept that way.
+ */
+export function updateFindingDetails(item: SemgrepResult, category: TriageCategory, details: FindingDetails, requireFalsePositiveNote: boolean): boolean {
+    const note = details.note?.trim() || undefined;
+    const rejected = !note && requireFalsePositiveNote && category === 'falsePositives';
+    if (!rejected) {
+        item.note = note;
+    }
+    item.verdict = details.verdict || undefined;
+    item.severityOverride = details.severityOverride || undefined;
+    return !rejected;
+}
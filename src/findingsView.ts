@@ -0,0 +1,253 @@
+import { globToRegExp, normalizePath } from './glob';
+import { cweIds } from './metadata';
+import { SemgrepResult, TriageCategory, effectiveSeverity } from './types';
+
+/**
+ * Filter, sort and grouping settings of the triage view.
+ */
+export interface ViewOptions {
+    text: string;
+    hiddenSeverities: string[];
+    rules: string[];
+    sources: string[];
+    // Minimum confidence, empty for any
+    confidence: string;
+    // Comma separated CWE numbers
+    cwe: string;
+    // Comma separated path globs
+    include: string;
+    exclude: string;
+    // Stale findings: '' shows them, 'hide' hides them, 'only' shows nothing else
+    stale: string;
+    groupBy: 'none' | 'rule' | 'file';
+    sortBy: string;
+    // Collapsed groups as `<table>:<key>`
+    collapsed: string[];
+    // IDs of the findings whose metadata row is expanded
+    expanded: string[];
+}
+
+export const DEFAULT_VIEW_OPTIONS: ViewOptions = {
+    text: '',
+    hiddenSeverities: [],
+    rules: [],
+    sources: [],
+    confidence: '',
+    cwe: '',
+    include: '',
+    exclude: '',
+    stale: '',
+    groupBy: 'none',
+    sortBy: 'none',
+    collapsed: [],
+    expanded: []
+};
+
+/**
+ * A finding shown in a table, with its current category and, in the
+ * baseline comparison, the decision of the baseline.
+ */
+export interface ViewEntry {
+    item: SemgrepResult;
+    category?: TriageCategory;
+    baseline?: { category: TriageCategory, verdict?: string };
+}
+
+/**
+ * A row of a table: a group header, a finding, or the metadata of the finding above.
+ */
+export type ViewRow =
+    | { kind: 'group', key: string, count: number, collapsed: boolean }
+    | ({ kind: 'item' } & ViewEntry)
+    | { kind: 'metadata', item: SemgrepResult };
+
+/**
+ * Values offered by the filter bar, with the number of findings.
+ */
+export interface ViewFacets {
+    severities: string[];
+    rules: [string, number][];
+    sources: [string, number][];
+}
+
+const LEVELS = ['HIGH', 'MEDIUM', 'LOW'];
+const SEVERITIES = ['ERROR', 'WARNING', 'INFO'];
+
+/**
+ * Reads view options sent by the webview, falling back to the defaults for
+ * missing or malformed values.
+ */
+export function parseViewOptions(value: any): ViewOptions {
+    const options: any = { ...DEFAULT_VIEW_OPTIONS };
+    for (const key of Object.keys(DEFAULT_VIEW_OPTIONS) as (keyof ViewOptions)[]) {
+        const fallback = DEFAULT_VIEW_OPTIONS[key];
+        const given = value?.[key];
+        if (Array.isArray(fallback)
+            ? Array.isArray(given) && given.every(entry => typeof entry === 'string')
+            : typeof given === 'string') {
+            options[key] = given;
+        }
+    }
+    if (!['none', 'rule', 'file'].includes(options.groupBy)) {
+        options.groupBy = 'none';
+    }
+    if (!['', 'hide', 'only'].includes(options.stale)) {
+        options.stale = '';
+    }
+    return options;
+}
+
+/**
+ * Builds the predicate of the filters.
+ */
+export function createFilter(options: ViewOptions): (item: SemgrepResult) => boolean {
+    const text = options.text.trim().toLowerCase();
+    const hiddenSeverities = new Set(options.hiddenSeverities);
+    const rules = new Set(options.rules);
+    const sources = new Set(options.sources);
+    const minConfidence = options.confidence ? levelRank(LEVELS, options.confidence) : null;
+    const cwes = options.cwe.split(/[\s,]+/)
+        .filter(value => value)
+        .map(value => `CWE-${value.replace(/^CWE-?/i, '')}`.toUpperCase());
+    const include = parseGlobs(options.include);
+    const exclude = parseGlobs(options.exclude);
+
+    return item => {
+        if (text && !`${item.extra.message}\n${item.extra.lines}`.toLowerCase().includes(text)) {
+            return false;
+        }
+        if (hiddenSeverities.has(effectiveSeverity(item))) {
+            return false;
+        }
+        if ((options.stale === 'hide' && item.stale) || (options.stale === 'only' && !item.stale)) {
+            return false;
+        }
+        if (rules.size > 0 && !rules.has(item.check_id)) {
+            return false;
+        }
+        if (sources.size > 0 && !(item.sources ?? []).some(source => sources.has(source))) {
+            return false;
+        }
+        if (minConfidence !== null && levelRank(LEVELS, item.extra.metadata?.confidence) > minConfidence) {
+            return false;
+        }
+        if (cwes.length > 0 && !cweIds(item.extra.metadata).some(id => cwes.includes(id))) {
+            return false;
+        }
+        const itemPath = normalizePath(item.path);
+        if (include.length > 0 && !include.some(re => re.test(itemPath))) {
+            return false;
+        }
+        return !exclude.some(re => re.test(itemPath));
+    };
+}
+
+/**
+ * Sorts findings by a sort key, keeping the scan order for ties and unknown keys.
+ */
+export function sortEntries<T extends { item: SemgrepResult }>(entries: T[], sortBy: string): T[] {
+    const level = (name: 'confidence' | 'likelihood' | 'impact') => (a: SemgrepResult, b: SemgrepResult) =>
+        levelRank(LEVELS, a.extra.metadata?.[name]) - levelRank(LEVELS, b.extra.metadata?.[name]);
+    const compare: ((a: SemgrepResult, b: SemgrepResult) => number) | undefined = ({
+        severity: (a: SemgrepResult, b: SemgrepResult) => levelRank(SEVERITIES, effectiveSeverity(a)) - levelRank(SEVERITIES, effectiveSeverity(b)),
+        confidence: level('confidence'),
+        likelihood: level('likelihood'),
+        impact: level('impact'),
+        cwe: (a: SemgrepResult, b: SemgrepResult) => cweNumber(a) - cweNumber(b),
+        rule: (a: SemgrepResult, b: SemgrepResult) => a.check_id.localeCompare(b.check_id),
+        path: (a: SemgrepResult, b: SemgrepResult) => a.path.localeCompare(b.path) || a.start.line - b.start.line
+    } as Record<string, (a: SemgrepResult, b: SemgrepResult) => number>)[sortBy];
+    if (!compare) {
+        return entries;
+    }
+    return entries
+        .map((entry, index) => ({ entry, index }))
+        .sort((a, b) => compare(a.entry.item, b.entry.item) || a.index - b.index)
+        .map(({ entry }) => entry);
+}
+
+/**
+ * Returns the findings that pass the filters, sorted.
+ */
+export function filterEntries(entries: ViewEntry[], options: ViewOptions): ViewEntry[] {
+    const filter = createFilter(options);
+    return sortEntries(entries.filter(entry => filter(entry.item)), options.sortBy);
+}
+
+/**
+ * Builds the rows of a table from its shown findings: in collapsible groups
+ * when grouping is enabled and the table supports it, each finding followed
+ * by its metadata row when expanded.
+ */
+export function buildRows(table: string, shown: ViewEntry[], options: ViewOptions, groupable = true): ViewRow[] {
+    const expanded = new Set(options.expanded);
+    const rows: ViewRow[] = [];
+    const pushEntry = (entry: ViewEntry) => {
+        rows.push({ kind: 'item', ...entry });
+        if (expanded.has(entry.item.id)) {
+            rows.push({ kind: 'metadata', item: entry.item });
+        }
+    };
+
+    if (!groupable || options.groupBy === 'none') {
+        shown.forEach(pushEntry);
+        return rows;
+    }
+
+    const groups = new Map<string, ViewEntry[]>();
+    for (const entry of shown) {
+        const key = options.groupBy === 'rule' ? entry.item.check_id : entry.item.path;
+        const group = groups.get(key);
+        if (group) {
+            group.push(entry);
+        } else {
+            groups.set(key, [entry]);
+        }
+    }
+    const collapsed = new Set(options.collapsed);
+    for (const key of Array.from(groups.keys()).sort()) {
+        const groupEntries = groups.get(key)!;
+        const isCollapsed = collapsed.has(`${table}:${key}`);
+        rows.push({ kind: 'group', key, count: groupEntries.length, collapsed: isCollapsed });
+        if (!isCollapsed) {
+            groupEntries.forEach(pushEntry);
+        }
+    }
+    return rows;
+}
+
+/**
+ * Collects the severities, rules and source scans of all findings for the filter bar.
+ */
+export function buildFacets(items: SemgrepResult[]): ViewFacets {
+    const rules = new Map<string, number>();
+    const sources = new Map<string, number>();
+    const severities = new Set<string>();
+    for (const item of items) {
+        severities.add(effectiveSeverity(item));
+        rules.set(item.check_id, (rules.get(item.check_id) ?? 0) + 1);
+        (item.sources ?? []).forEach(source => sources.set(source, (sources.get(source) ?? 0) + 1));
+    }
+    const sorted = (counts: Map<string, number>) => Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+    return { severities: Array.from(severities).sort(), rules: sorted(rules), sources: sorted(sources) };
+}
+
+/**
+ * Ranks a severity, confidence, likelihood or impact level, most important first.
+ */
+function levelRank(levels: string[], value: string | undefined): number {
+    const index = value ? levels.indexOf(value) : -1;
+    return index >= 0 ? index : levels.length;
+}
+
+/**
+ * Returns the lowest CWE number of a finding, findings without CWE sort last.
+ */
+function cweNumber(item: SemgrepResult): number {
+    const numbers = cweIds(item.extra.metadata).map(id => parseInt(id.substring(4), 10));
+    return numbers.length > 0 ? Math.min(...numbers) : Number.MAX_SAFE_INTEGER;
+}
+
+function parseGlobs(value: string): RegExp[] {
+    return value.split(',').map(glob => glob.trim()).filter(glob => glob).map(globToRegExp);
+}
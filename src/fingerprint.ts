@@ -0,0 +1,111 @@
+import * as crypto from 'crypto';
+import { SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults } from './types';
+import { normalizePath } from './glob';
+
+/**
+ * Placeholder Semgrep writes into `extra.fingerprint` and `extra.lines`
+ * when the scan was not run with a logged-in account.
+ */
+const REQUIRES_LOGIN = 'requires login';
+
+/**
+ * Computes a content-based fingerprint for a finding. Semgrep's own
+ * `extra.fingerprint` is used when present, otherwise the fingerprint is
+ * derived from the rule ID, the path and the whitespace-normalized snippet,
+ * so that it stays stable when code moves up or down in the file.
+ */
+export function fingerprintResult(result: Omit<SemgrepResult, 'id'>): string {
+    const semgrepFingerprint = result.extra?.fingerprint;
+    if (typeof semgrepFingerprint === 'string' && semgrepFingerprint && semgrepFingerprint !== REQUIRES_LOGIN) {
+        return semgrepFingerprint;
+    }
+
+    const snippet = normalizeSnippet(result.extra?.lines);
+    const hash = crypto.createHash('sha256');
+    hash.update(result.check_id);
+    hash.update('\0');
+    hash.update(normalizePath(result.path));
+    hash.update('\0');
+    // Without a snippet the location is the only thing telling findings apart
+    hash.update(snippet || `${result.start.line}:${result.start.col}`);
+    return hash.digest('hex').substring(0, 32);
+}
+
+/**
+ * Assigns fingerprint based IDs to the results. Identical findings (same
+ * rule, path and snippet) are told apart by an occurrence suffix.
+ */
+export function assignFingerprintIds(results: Omit<SemgrepResult, 'id'>[]): SemgrepResult[] {
+    const occurrences = new Map<string, number>();
+
+    return results.map(r => {
+        const fingerprint = fingerprintResult(r);
+        const seen = occurrences.get(fingerprint) ?? 0;
+        occurrences.set(fingerprint, seen + 1);
+        return { ...r, id: seen === 0 ? fingerprint : `${fingerprint}:${seen}` };
+    });
+}
+
+/**
+ * A triage decision of a previous session.
+ */
+export interface PreviousDecision {
+    category: TriageCategory;
+    item: SemgrepResult;
+}
+
+/**
+ * Carries the decisions of a previous session (issues and false positives,
+ * with the analyst's notes, verdicts and severity overrides) over to the
+ * matching findings of the current results. Identical findings are matched
+ * in order. Findings fixed in this session stay fixed. Returns the number of applied decisions and the decisions that
+ * no longer match any finding.
+ */
+export function applyPreviousDecisions(current: TriageResults, previous: TriageResults): { applied: number, unmatched: PreviousDecision[] } {
+    const decisions = new Map<string, PreviousDecision[]>();
+    for (const category of ['issues', 'falsePositives'] as TriageCategory[]) {
+        for (const item of previous[category]) {
+            const fingerprint = fingerprintResult(item);
+            const queue = decisions.get(fingerprint) ?? [];
+            queue.push({ category, item });
+            decisions.set(fingerprint, queue);
+        }
+    }
+
+    // Walk the categories as they were and rebuild them once, so that a moved
+    // finding isn't visited again in its new category
+    let applied = 0;
+    const kept: TriageResults = { untriaged: [], issues: [], falsePositives: [], fixed: [] };
+    const moved: TriageResults = { untriaged: [], issues: [], falsePositives: [], fixed: [] };
+    for (const from of TRIAGE_CATEGORIES) {
+        for (const item of current[from]) {
+            const decision = decisions.get(fingerprintResult(item))?.shift();
+            if (!decision) {
+                kept[from].push(item);
+                continue;
+            }
+            applied++;
+            item.note = decision.item.note;
+            item.verdict = decision.item.verdict;
+            item.severityOverride = decision.item.severityOverride;
+            // Only applying its fix moves a finding in or out of Fixed
+            const to = from === 'fixed' ? from : decision.category;
+            (to === from ? kept : moved)[to].push(item);
+        }
+    }
+    for (const category of TRIAGE_CATEGORIES) {
+        current[category] = [...kept[category], ...moved[category]];
+    }
+
+    return { applied, unmatched: Array.from(decisions.values()).flat() };
+}
+
+/**
+ * Collapses all whitespace so that re-indentation does not change the fingerprint.
+ */
+function normalizeSnippet(lines: string | undefined): string {
+    if (!lines || lines === REQUIRES_LOGIN) {
+        return '';
+    }
+    return lines.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,49 @@
+/**
+ * Converts a path glob (`*`, `**` and `?`) into a regular expression.
+ * Patterns without a slash match in any directory and a matched
+ * directory matches everything beneath it, e.g. `test` matches
+ * `src/test/app.spec.ts`.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/\\/g, '/');
+    if (!pattern.includes('/')) {
+        pattern = '**/' + pattern;
+    }
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+        if (c === '*' && pattern[i + 1] === '*') {
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp('^' + source + '(?:/.*)?$');
+}
+
+/**
+ * Checks whether a result path matches a glob.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+    return globToRegExp(glob).test(normalizePath(filePath));
+}
+
+/**
+ * Normalizes a result path so that the same file scanned from different
+ * working directories or platforms is written the same way: forward
+ * slashes, no leading `./`.
+ */
+export function normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
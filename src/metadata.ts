@@ -0,0 +1,64 @@
+import { SemgrepMetadata, SemgrepResult } from './types';
+
+/**
+ * Normalizes the rule metadata of a finding: CWE, OWASP and references
+ * become lists, confidence, likelihood and impact are upper-cased.
+ * Returns undefined when there is no metadata.
+ */
+export function normalizeMetadata(raw: any): SemgrepMetadata | undefined {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return undefined;
+    }
+
+    const metadata: SemgrepMetadata = { ...raw };
+    for (const key of ['cwe', 'owasp', 'references'] as const) {
+        const list = toList(raw[key]);
+        if (list) {
+            metadata[key] = list;
+        } else {
+            delete metadata[key];
+        }
+    }
+    for (const key of ['confidence', 'likelihood', 'impact'] as const) {
+        if (typeof raw[key] === 'string') {
+            metadata[key] = raw[key].toUpperCase();
+        } else {
+            delete metadata[key];
+        }
+    }
+    // Older rules name the registry link "source-rule-url"
+    const source = raw.source ?? raw['source-rule-url'];
+    if (typeof source === 'string') {
+        metadata.source = source;
+    } else {
+        delete metadata.source;
+    }
+    return metadata;
+}
+
+/**
+ * Returns the finding with normalized metadata.
+ */
+export function withNormalizedMetadata<T extends Omit<SemgrepResult, 'id'>>(result: T): T {
+    const metadata = normalizeMetadata(result.extra?.metadata);
+    return metadata ? { ...result, extra: { ...result.extra, metadata } } : result;
+}
+
+/**
+ * Extracts the CWE IDs, e.g. "CWE-79", from the CWE entries of the metadata.
+ */
+export function cweIds(metadata: SemgrepMetadata | undefined): string[] {
+    return (metadata?.cwe ?? [])
+        .map(entry => /CWE-\d+/i.exec(entry)?.[0].toUpperCase())
+        .filter((id): id is string => !!id);
+}
+
+function toList(value: any): string[] | undefined {
+    if (typeof value === 'string') {
+        return [value];
+    }
+    if (Array.isArray(value)) {
+        return value.filter(entry => typeof entry === 'string');
+    }
+    return undefined;
+}
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Rewrites paths starting with `from`, e.g. the checkout directory of a CI
+ * container, to start with `to` instead.
+ */
+export interface PathMapping {
+    from: string;
+    // Absolute, or relative to the workspace folders; may use ${workspaceFolder} or ${workspaceFolder:name}
+    to: string;
+}
+
+const CONFIG_SECTION = 'semgrepTriage';
+const MAPPINGS_KEY = 'pathMappings';
+
+/**
+ * Reads the configured path mappings, skipping malformed entries.
+ */
+export function getPathMappings(): PathMapping[] {
+    const mappings = vscode.workspace.getConfiguration(CONFIG_SECTION).get<any[]>(MAPPINGS_KEY) ?? [];
+    return mappings.filter(m => m && typeof m.from === 'string' && m.from && typeof m.to === 'string');
+}
+
+/**
+ * Appends a mapping to the workspace configuration, or to the user
+ * configuration when no folder is open, without copying the user's
+ * mappings into the workspace.
+ */
+export async function addPathMapping(mapping: PathMapping) {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const inspected = config.inspect<PathMapping[]>(MAPPINGS_KEY);
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    const mappings = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : inspected?.globalValue) ?? [];
+    await config.update(MAPPINGS_KEY, [...mappings, mapping], target);
+}
+
+/**
+ * Returns the local paths a result path may refer to, most likely first:
+ * the path rewritten by the longest matching mapping, then the path as is.
+ * Relative paths are tried against every root, in order.
+ */
+export function candidatePaths(resultPath: string, mappings: PathMapping[], roots: { name: string, path: string }[]): string[] {
+    const normalized = normalizeSeparators(resultPath);
+    const mapping = mappings
+        .filter(m => matchesPrefix(normalized, normalizeSeparators(m.from)))
+        .sort((a, b) => b.from.length - a.from.length)[0];
+
+    const paths = [normalized];
+    if (mapping) {
+        const rest = normalized.substring(normalizeSeparators(mapping.from).replace(/\/$/, '').length).replace(/^\//, '');
+        paths.unshift(joinPath(substituteVariables(mapping.to, roots), rest));
+    }
+
+    const candidates = paths.flatMap(p => isAbsolute(p) ? [p] : roots.map(root => path.join(root.path, p)));
+    return Array.from(new Set(candidates.map(p => path.normalize(p))));
+}
+
+/**
+ * Finds the shortest directory prefix shared by the paths, e.g. `/src/` for
+ * `/src/app/a.py` and `/src/lib/b.py`. Empty when there is none.
+ */
+export function commonDirectory(paths: string[]): string {
+    if (paths.length === 0) {
+        return '';
+    }
+    const parts = paths.map(p => normalizeSeparators(p).split('/').slice(0, -1));
+    const common: string[] = [];
+    for (let i = 0; parts.every(p => i < p.length && p[i] === parts[0][i]); i++) {
+        common.push(parts[0][i]);
+    }
+    return common.length > 0 ? `${common.join('/')}/` : '';
+}
+
+function normalizeSeparators(value: string): string {
+    return value.replace(/\\/g, '/');
+}
+
+function matchesPrefix(value: string, prefix: string): boolean {
+    const directory = prefix.replace(/\/$/, '');
+    return value === directory || value.startsWith(`${directory}/`);
+}
+
+function isAbsolute(value: string): boolean {
+    return path.isAbsolute(value) || /^[a-zA-Z]:\//.test(value);
+}
+
+function joinPath(base: string, rest: string): string {
+    return rest ? `${base.replace(/[\\/]$/, '')}/${rest}` : base;
+}
+
+/**
+ * Replaces ${workspaceFolder} with the first root and ${workspaceFolder:name} with the named one.
+ */
+function substituteVariables(value: string, roots: { name: string, path: string }[]): string {
+    return value.replace(/\$\{workspaceFolder(?::([^}]+))?\}/g, (variable, name?: string) => {
+        const root = name ? roots.find(r => r.name === name) : roots[0];
+        return root ? normalizeSeparators(root.path) : variable;
+    });
+}
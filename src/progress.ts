@@ -0,0 +1,258 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { AuditEntry, TRIAGE_CATEGORIES, TriageResults } from './types';
+
+/**
+ * Current version of the progress file format.
+ */
+export const PROGRESS_FORMAT_VERSION = 3;
+
+/**
+ * The results file a triage session was started from.
+ */
+export interface ProgressSource {
+    // Path of the Semgrep results file
+    path: string;
+    // SHA-256 of the results file content
+    sha256: string;
+}
+
+/**
+ * Structure of a saved progress file (format version 3):
+ *
+ * ```json
+ * {
+ *   "formatVersion": 3,
+ *   "source": { "path": "/scans/semgrep.json", "sha256": "..." },
+ *   "savedAt": "2025-01-31T12:00:00.000Z",
+ *   "results": { "untriaged": [...], "issues": [...], "falsePositives": [...], "fixed": [...] },
+ *   "audit": [{ "timestamp": "...", "user": "...", "action": "triage", "findingId": "...", ... }]
+ * }
+ * ```
+ *
+ * `source` is `null` when the session was not started from a results file,
+ * `savedAt` is `null` for files migrated from the unversioned format.
+ */
+export interface ProgressFile {
+    formatVersion: number;
+    source: ProgressSource | null;
+    savedAt: string | null;
+    results: TriageResults;
+    audit: AuditEntry[];
+}
+
+/**
+ * Raised when a progress file cannot be read. The message names the offending field.
+ */
+export class ProgressFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProgressFormatError';
+    }
+}
+
+/**
+ * Upgrades a progress file from the version it is keyed by to the next version.
+ */
+const MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+    // Unversioned files are the bare `{ untriaged, issues, falsePositives }` state
+    0: data => ({
+        formatVersion: 1,
+        source: null,
+        savedAt: null,
+        results: {
+            untriaged: data.untriaged,
+            issues: data.issues,
+            falsePositives: data.falsePositives
+        }
+    }),
+    // Version 2 added the audit trail
+    1: data => ({ ...data, formatVersion: 2, audit: [] }),
+    // Version 3 added the findings fixed by applying their autofix
+    2: data => ({ ...data, formatVersion: 3, results: isObject(data.results) ? { ...data.results, fixed: [] } : data.results })
+};
+
+/**
+ * Computes the SHA-256 of a results file.
+ */
+export async function hashFile(filePath: string): Promise<string> {
+    const content = await fs.readFile(filePath);
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Creates the progress file content for the current triage state.
+ */
+export function createProgressFile(results: TriageResults, source: ProgressSource | null, audit: AuditEntry[]): ProgressFile {
+    return {
+        formatVersion: PROGRESS_FORMAT_VERSION,
+        source,
+        savedAt: new Date().toISOString(),
+        results,
+        audit
+    };
+}
+
+/**
+ * Migrates a parsed progress file to the current format version and validates it.
+ */
+export function parseProgressFile(data: any): ProgressFile {
+    if (!isObject(data)) {
+        throw new ProgressFormatError('Expected a JSON object.');
+    }
+    if (Array.isArray(data.results) && data.formatVersion === undefined) {
+        throw new ProgressFormatError('This is a Semgrep results file, not a progress file. Open it with "Semgrep Triage: Open Results File" instead.');
+    }
+
+    let version = data.formatVersion === undefined ? 0 : data.formatVersion;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new ProgressFormatError(`formatVersion: expected a non-negative integer, got ${JSON.stringify(version)}.`);
+    }
+    if (version > PROGRESS_FORMAT_VERSION) {
+        throw new ProgressFormatError(`formatVersion: version ${version} is newer than the supported version ${PROGRESS_FORMAT_VERSION}. Please update the extension.`);
+    }
+
+    if (version === 0) {
+        // Check the legacy structure before migrating so that errors name the original fields
+        for (const category of ['untriaged', 'issues', 'falsePositives']) {
+            if (!Array.isArray(data[category])) {
+                throw new ProgressFormatError(`${category}: expected an array.`);
+            }
+        }
+    }
+
+    while (version < PROGRESS_FORMAT_VERSION) {
+        data = MIGRATIONS[version](data);
+        version = data.formatVersion;
+    }
+
+    validateProgressFile(data);
+    return data;
+}
+
+/**
+ * Validates a progress file of the current format version.
+ */
+function validateProgressFile(data: any) {
+    if (data.source !== null) {
+        expectObject(data.source, 'source');
+        expectString(data.source.path, 'source.path');
+        expectString(data.source.sha256, 'source.sha256');
+    }
+    if (data.savedAt !== null) {
+        expectString(data.savedAt, 'savedAt');
+        if (isNaN(Date.parse(data.savedAt))) {
+            throw new ProgressFormatError(`savedAt: expected an ISO timestamp, got ${JSON.stringify(data.savedAt)}.`);
+        }
+    }
+
+    expectObject(data.results, 'results');
+    const ids = new Set<string>();
+    for (const category of TRIAGE_CATEGORIES) {
+        const items = data.results[category];
+        if (!Array.isArray(items)) {
+            throw new ProgressFormatError(`results.${category}: expected an array.`);
+        }
+        items.forEach((item: any, index: number) => {
+            const field = `results.${category}[${index}]`;
+            validateResult(item, field);
+            if (ids.has(item.id)) {
+                throw new ProgressFormatError(`${field}.id: duplicate ID ${JSON.stringify(item.id)}.`);
+            }
+            ids.add(item.id);
+        });
+    }
+
+    if (!Array.isArray(data.audit)) {
+        throw new ProgressFormatError(`audit: expected an array, got ${describe(data.audit)}.`);
+    }
+    data.audit.forEach((entry: any, index: number) => validateAuditEntry(entry, `audit[${index}]`));
+}
+
+/**
+ * Validates a single audit trail entry.
+ */
+function validateAuditEntry(entry: any, field: string) {
+    expectObject(entry, field);
+    for (const key of ['timestamp', 'user', 'action', 'findingId', 'check_id', 'path']) {
+        expectString(entry[key], `${field}.${key}`);
+    }
+    for (const key of ['from', 'to']) {
+        if (!TRIAGE_CATEGORIES.includes(entry[key])) {
+            throw new ProgressFormatError(`${field}.${key}: expected one of ${TRIAGE_CATEGORIES.join(', ')}, got ${JSON.stringify(entry[key])}.`);
+        }
+    }
+    if (entry.note !== undefined) {
+        expectString(entry.note, `${field}.note`);
+    }
+}
+
+/**
+ * Validates a single stored result.
+ */
+function validateResult(item: any, field: string) {
+    expectObject(item, field);
+    expectString(item.id, `${field}.id`);
+    expectString(item.check_id, `${field}.check_id`);
+    expectString(item.path, `${field}.path`);
+    validateLocation(item, field);
+    if (item.scanLocation !== undefined) {
+        expectObject(item.scanLocation, `${field}.scanLocation`);
+        validateLocation(item.scanLocation, `${field}.scanLocation`);
+    }
+    expectObject(item.extra, `${field}.extra`);
+    expectString(item.extra.message, `${field}.extra.message`);
+    expectString(item.extra.severity, `${field}.extra.severity`);
+    expectString(item.extra.lines, `${field}.extra.lines`);
+    for (const optional of ['note', 'verdict', 'severityOverride']) {
+        if (item[optional] !== undefined) {
+            expectString(item[optional], `${field}.${optional}`);
+        }
+    }
+    if (item.sources !== undefined) {
+        if (!Array.isArray(item.sources)) {
+            throw new ProgressFormatError(`${field}.sources: expected an array, got ${describe(item.sources)}.`);
+        }
+        item.sources.forEach((source: any, index: number) => expectString(source, `${field}.sources[${index}]`));
+    }
+}
+
+/**
+ * Validates the `start` and `end` positions of a result or of its scan location.
+ */
+function validateLocation(location: any, field: string) {
+    for (const position of ['start', 'end']) {
+        expectObject(location[position], `${field}.${position}`);
+        expectNumber(location[position].line, `${field}.${position}.line`);
+        expectNumber(location[position].col, `${field}.${position}.col`);
+    }
+}
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: any, field: string) {
+    if (!isObject(value)) {
+        throw new ProgressFormatError(`${field}: expected an object, got ${describe(value)}.`);
+    }
+}
+
+function expectString(value: any, field: string) {
+    if (typeof value !== 'string') {
+        throw new ProgressFormatError(`${field}: expected a string, got ${describe(value)}.`);
+    }
+}
+
+function expectNumber(value: any, field: string) {
+    if (typeof value !== 'number' || isNaN(value)) {
+        throw new ProgressFormatError(`${field}: expected a number, got ${describe(value)}.`);
+    }
+}
+
+function describe(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'an array' : typeof value;
+}
@@ -0,0 +1,212 @@
+import { CATEGORY_PLURAL_LABELS, SemgrepResult, TRIAGE_CATEGORIES, TriageResults, effectiveSeverity } from './types';
+
+/**
+ * Supported report formats.
+ */
+export type ReportFormat = 'markdown' | 'html' | 'csv';
+
+/**
+ * File extension of each report format.
+ */
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    csv: 'csv'
+};
+
+/**
+ * Information about the triage session printed in the report header.
+ */
+export interface ReportInfo {
+    // Results file the session was started from, if any
+    sourcePath?: string;
+    generatedAt: Date;
+}
+
+/**
+ * Builds a report of the triage state in the given format.
+ */
+export function buildReport(format: ReportFormat, results: TriageResults, info: ReportInfo): string {
+    switch (format) {
+        case 'markdown':
+            return buildMarkdownReport(results, info);
+        case 'html':
+            return buildHtmlReport(results, info);
+        case 'csv':
+            return buildCsvReport(results);
+    }
+}
+
+/**
+ * Counts of the findings per category, severity and rule.
+ */
+interface ReportSummary {
+    categories: [string, number][];
+    severities: [string, number][];
+    rules: [string, number][];
+}
+
+/**
+ * Computes the summary counts. Severities and rules are sorted by count.
+ */
+function summarize(results: TriageResults): ReportSummary {
+    const all = TRIAGE_CATEGORIES.flatMap(category => results[category]);
+    return {
+        categories: TRIAGE_CATEGORIES.map(category => [CATEGORY_PLURAL_LABELS[category], results[category].length]),
+        severities: countBy(all, effectiveSeverity),
+        rules: countBy(all, r => r.check_id)
+    };
+}
+
+function countBy(items: SemgrepResult[], key: (item: SemgrepResult) => string): [string, number][] {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Builds a Markdown report.
+ */
+function buildMarkdownReport(results: TriageResults, info: ReportInfo): string {
+    const summary = summarize(results);
+    const lines: string[] = [
+        '# Semgrep Triage Report',
+        '',
+        `Generated: ${info.generatedAt.toISOString()}`
+    ];
+    if (info.sourcePath) {
+        lines.push(`Results file: \`${info.sourcePath}\``);
+    }
+
+    const table = (title: string, header: string, rows: [string, number][]) => {
+        lines.push('', `## ${title}`, '', `| ${header} | Count |`, '| --- | ---: |');
+        rows.forEach(([label, count]) => lines.push(`| ${escapeMarkdownCell(label)} | ${count} |`));
+    };
+    table('Summary by Category', 'Category', summary.categories);
+    table('Summary by Severity', 'Severity', summary.severities);
+    table('Summary by Rule', 'Rule', summary.rules);
+
+    lines.push('', `## Confirmed Issues (${results.issues.length})`);
+    if (results.issues.length === 0) {
+        lines.push('', 'No confirmed issues.');
+    }
+    results.issues.forEach((item, index) => {
+        lines.push(
+            '',
+            `### ${index + 1}. ${item.check_id}`,
+            '',
+            `- **Severity:** ${effectiveSeverity(item)}`,
+            `- **Location:** \`${item.path}:${item.start.line}\``
+        );
+        if (item.verdict) {
+            lines.push(`- **Verdict:** ${item.verdict}`);
+        }
+        lines.push('', item.extra.message);
+        if (item.extra.lines) {
+            const fence = item.extra.lines.includes('```') ? '~~~~' : '```';
+            lines.push('', fence, item.extra.lines, fence);
+        }
+        if (item.note) {
+            lines.push('', `> **Analyst note:** ${item.note.replace(/\n/g, '\n> ')}`);
+        }
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds a self-contained HTML report without external resources.
+ */
+function buildHtmlReport(results: TriageResults, info: ReportInfo): string {
+    const summary = summarize(results);
+    const table = (title: string, header: string, rows: [string, number][]) => `
+    <h2>${escapeHtml(title)}</h2>
+    <table>
+        <tr><th>${escapeHtml(header)}</th><th>Count</th></tr>
+        ${rows.map(([label, count]) => `<tr><td>${escapeHtml(label)}</td><td class="count">${count}</td></tr>`).join('\n        ')}
+    </table>`;
+
+    const issues = results.issues.map((item, index) => `
+    <section class="issue">
+        <h3>${index + 1}. ${escapeHtml(item.check_id)}</h3>
+        <p><strong>Severity:</strong> <span class="severity-${escapeHtml(effectiveSeverity(item))}">${escapeHtml(effectiveSeverity(item))}</span>
+        · <strong>Location:</strong> <code>${escapeHtml(item.path)}:${item.start.line}</code>
+        ${item.verdict ? `· <strong>Verdict:</strong> ${escapeHtml(item.verdict)}` : ''}</p>
+        <p>${escapeHtml(item.extra.message)}</p>
+        ${item.extra.lines ? `<pre>${escapeHtml(item.extra.lines)}</pre>` : ''}
+        ${item.note ? `<blockquote><strong>Analyst note:</strong> ${escapeHtml(item.note)}</blockquote>` : ''}
+    </section>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Semgrep Triage Report</title>
+    <style>
+        body { font-family: sans-serif; margin: 2em; color: #222; }
+        table { border-collapse: collapse; margin-bottom: 1em; }
+        th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+        td.count { text-align: right; }
+        pre { background: #f5f5f5; padding: 10px; overflow-x: auto; }
+        blockquote { border-left: 4px solid #ccc; margin: 0; padding-left: 10px; color: #555; }
+        .issue { border-top: 1px solid #ddd; padding-top: 0.5em; }
+        .severity-ERROR { color: #c00; font-weight: bold; }
+        .severity-WARNING { color: #b60; font-weight: bold; }
+    </style>
+</head>
+<body>
+    <h1>Semgrep Triage Report</h1>
+    <p>Generated: ${escapeHtml(info.generatedAt.toISOString())}${info.sourcePath ? `<br>Results file: <code>${escapeHtml(info.sourcePath)}</code>` : ''}</p>
+    ${table('Summary by Category', 'Category', summary.categories)}
+    ${table('Summary by Severity', 'Severity', summary.severities)}
+    ${table('Summary by Rule', 'Rule', summary.rules)}
+    <h2>Confirmed Issues (${results.issues.length})</h2>
+    ${results.issues.length === 0 ? '<p>No confirmed issues.</p>' : issues}
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds a CSV report with one row per finding of all categories.
+ */
+function buildCsvReport(results: TriageResults): string {
+    const header = ['category', 'check_id', 'severity', 'path', 'line', 'message', 'verdict', 'note', 'lines'];
+    const rows = TRIAGE_CATEGORIES.flatMap(category => results[category].map(item => [
+        category,
+        item.check_id,
+        effectiveSeverity(item),
+        item.path,
+        String(item.start.line),
+        item.extra.message,
+        item.verdict ?? '',
+        item.note ?? '',
+        item.extra.lines
+    ]));
+    return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * Quotes a CSV field when needed. Fields starting with a formula character
+ * are prefixed so that spreadsheets do not evaluate them.
+ */
+function escapeCsvField(value: string): string {
+    let field = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    if (/[",\r\n]/.test(field)) {
+        field = `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SemgrepResult, TRIAGE_CATEGORIES, TriageResults } from './types';
+import { isSarifLog, sarifToSemgrepResults } from './sarif';
+import { fingerprintResult } from './fingerprint';
+import { normalizePath } from './glob';
+
+/**
+ * Reads a Semgrep JSON or SARIF results file. The findings are tagged with
+ * the file they were loaded from.
+ */
+export async function readResultsFile(uri: vscode.Uri): Promise<Omit<SemgrepResult, 'id'>[]> {
+    const fileData = await vscode.workspace.fs.readFile(uri);
+    const resultsJson = JSON.parse(Buffer.from(fileData).toString('utf8'));
+
+    let results: Omit<SemgrepResult, 'id'>[];
+    if (isSarifLog(resultsJson)) {
+        // SARIF output (semgrep --sarif) is mapped onto the native result structure
+        results = sarifToSemgrepResults(resultsJson);
+    } else if (resultsJson && Array.isArray(resultsJson.results)) {
+        results = resultsJson.results;
+    } else {
+        throw new Error('Invalid Semgrep results format: neither a "results" array nor a SARIF 2.1.0 log found.');
+    }
+    return tagSource(results, sourceLabel(uri.fsPath));
+}
+
+/**
+ * Returns the label a results file is tagged with: the path relative to
+ * the workspace, or the file name for files outside of it.
+ */
+export function sourceLabel(filePath: string): string {
+    const relative = vscode.workspace.asRelativePath(filePath, false);
+    return relative === filePath ? path.basename(filePath) : relative;
+}
+
+/**
+ * Tags findings with the results file or scan they come from.
+ */
+export function tagSource<T extends { sources?: string[] }>(results: T[], source: string): T[] {
+    return results.map(result => ({ ...result, sources: [source] }));
+}
+
+/**
+ * Identifies a finding by its fingerprint and a location, by default its
+ * current one, so that the same finding reported by several scans is only
+ * triaged once.
+ */
+export function locationKey(result: Omit<SemgrepResult, 'id'>, location: Pick<SemgrepResult, 'start' | 'end'> = result): string {
+    const { start, end } = location;
+    return [fingerprintResult(result), normalizePath(result.path), start.line, start.col, end.line, end.col].join('\0');
+}
+
+/**
+ * Adds findings of another results file to a session. Findings already in
+ * the session (in any category) are not added again, they are tagged with
+ * the new sources instead. Relocated findings match both at the location of
+ * their scan and at their current one, i.e. in a rescan of the changed code. New findings are untriaged. Returns the added
+ * findings and the number of duplicates.
+ */
+export function mergeResults(results: TriageResults, incoming: Omit<SemgrepResult, 'id'>[]): { added: SemgrepResult[], duplicates: number } {
+    const existing = new Map<string, SemgrepResult>();
+    const ids = new Set<string>();
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of results[category]) {
+            existing.set(locationKey(item), item);
+            if (item.scanLocation) {
+                existing.set(locationKey(item, item.scanLocation), item);
+            }
+            ids.add(item.id);
+        }
+    }
+
+    const added: SemgrepResult[] = [];
+    let duplicates = 0;
+    for (const result of incoming) {
+        const key = locationKey(result);
+        const duplicate = existing.get(key);
+        if (duplicate) {
+            duplicates++;
+            duplicate.sources = Array.from(new Set([...(duplicate.sources ?? []), ...(result.sources ?? [])]));
+            continue;
+        }
+
+        // Same fingerprint IDs as a single load, with an occurrence suffix when taken
+        const fingerprint = fingerprintResult(result);
+        let id = fingerprint;
+        for (let seen = 1; ids.has(id); seen++) {
+            id = `${fingerprint}:${seen}`;
+        }
+
+        const item: SemgrepResult = { ...result, id };
+        ids.add(id);
+        existing.set(key, item);
+        results.untriaged.push(item);
+        added.push(item);
+    }
+    return { added, duplicates };
+}
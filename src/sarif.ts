@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SemgrepMetadata, SemgrepResult, TriageResults, effectiveSeverity } from './types';
+
+const SARIF_VERSION = '2.1.0';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Maps SARIF result levels to Semgrep severities.
+ */
+const LEVEL_TO_SEVERITY: { [level: string]: string } = {
+    error: 'ERROR',
+    warning: 'WARNING',
+    note: 'INFO',
+    none: 'INFO'
+};
+
+/**
+ * Maps Semgrep severities to SARIF result levels.
+ */
+const SEVERITY_TO_LEVEL: { [severity: string]: string } = {
+    ERROR: 'error',
+    WARNING: 'warning',
+    INFO: 'note'
+};
+
+/**
+ * Checks whether the parsed JSON looks like a SARIF 2.1.0 log.
+ */
+export function isSarifLog(json: any): boolean {
+    return !!json
+        && typeof json.version === 'string'
+        && json.version.startsWith('2.1')
+        && Array.isArray(json.runs);
+}
+
+/**
+ * Converts all results of all runs in a SARIF log into Semgrep results.
+ * The returned results do not carry an `id` yet; the panel assigns it.
+ */
+export function sarifToSemgrepResults(log: any): Omit<SemgrepResult, 'id'>[] {
+    const converted: Omit<SemgrepResult, 'id'>[] = [];
+
+    for (const run of log.runs) {
+        const rules: any[] = run?.tool?.driver?.rules ?? [];
+
+        for (const result of run?.results ?? []) {
+            const location = result.locations?.[0]?.physicalLocation;
+            if (!location?.artifactLocation?.uri) {
+                continue; // Nothing to navigate to
+            }
+
+            const rule = findRule(rules, result);
+            const region = location.region ?? {};
+            const startLine = region.startLine ?? 1;
+            const startCol = region.startColumn ?? 1;
+            const level = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+
+            converted.push({
+                check_id: result.ruleId ?? rule?.id ?? 'unknown',
+                path: uriToPath(location.artifactLocation.uri),
+                start: { line: startLine, col: startCol },
+                end: { line: region.endLine ?? startLine, col: region.endColumn ?? startCol },
+                extra: {
+                    message: result.message?.text ?? rule?.shortDescription?.text ?? '',
+                    severity: LEVEL_TO_SEVERITY[level] ?? 'WARNING',
+                    lines: region.snippet?.text ?? '',
+                    fingerprint: firstFingerprint(result.fingerprints),
+                    metadata: ruleMetadata(rule)
+                }
+            });
+        }
+    }
+
+    return converted;
+}
+
+/**
+ * Builds a SARIF 2.1.0 log from the triage state. Findings marked as
+ * false positives are emitted with an accepted external suppression, justified
+ * by the analyst's note when there is one.
+ */
+export function buildSarifLog(results: TriageResults): any {
+    // Applying their fix removed the code of fixed findings, so they are not exported
+    const all: SemgrepResult[] = [...results.untriaged, ...results.issues, ...results.falsePositives];
+    const falsePositiveIds = new Set(results.falsePositives.map(r => r.id));
+
+    const ruleIds = Array.from(new Set(all.map(r => r.check_id))).sort();
+    const rules = ruleIds.map(id => ({ id, name: id }));
+
+    const sarifResults = all.map(r => {
+        const sarifResult: any = {
+            ruleId: r.check_id,
+            ruleIndex: ruleIds.indexOf(r.check_id),
+            level: SEVERITY_TO_LEVEL[effectiveSeverity(r)] ?? 'warning',
+            message: { text: r.extra.message },
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: pathToUri(r.path) },
+                    region: {
+                        startLine: r.start.line,
+                        startColumn: r.start.col,
+                        endLine: r.end.line,
+                        endColumn: r.end.col,
+                        snippet: { text: r.extra.lines }
+                    }
+                }
+            }]
+        };
+
+        if (r.extra.fingerprint) {
+            sarifResult.fingerprints = { 'matchBasedId/v1': r.extra.fingerprint };
+        }
+
+        if (falsePositiveIds.has(r.id)) {
+            const suppression: any = { kind: 'external', status: 'accepted' };
+            if (r.note) {
+                suppression.justification = r.note;
+            }
+            sarifResult.suppressions = [suppression];
+        }
+
+        return sarifResult;
+    });
+
+    return {
+        version: SARIF_VERSION,
+        $schema: SARIF_SCHEMA,
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'Semgrep',
+                    informationUri: 'https://semgrep.dev',
+                    rules
+                }
+            },
+            results: sarifResults
+        }]
+    };
+}
+
+/**
+ * Finds the rule descriptor referenced by a SARIF result.
+ */
+function findRule(rules: any[], result: any): any {
+    if (typeof result.ruleIndex === 'number' && rules[result.ruleIndex]) {
+        return rules[result.ruleIndex];
+    }
+    return rules.find(rule => rule.id === result.ruleId);
+}
+
+/**
+ * Returns the first fingerprint of a SARIF result, preferring Semgrep's own.
+ */
+function firstFingerprint(fingerprints: any): string | undefined {
+    if (!fingerprints || typeof fingerprints !== 'object') {
+        return undefined;
+    }
+    return fingerprints['matchBasedId/v1'] ?? Object.values(fingerprints).find(v => typeof v === 'string');
+}
+
+/**
+ * Converts a SARIF artifact URI into a file system path.
+ */
+function uriToPath(uri: string): string {
+    if (uri.startsWith('file:')) {
+        return vscode.Uri.parse(uri).fsPath;
+    }
+    return decodeURIComponent(uri);
+}
+
+/**
+ * Converts a result path into a SARIF artifact URI.
+ */
+function pathToUri(filePath: string): string {
+    if (path.isAbsolute(filePath)) {
+        return vscode.Uri.file(filePath).toString();
+    }
+    return filePath.split(/[\\/]/).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Recovers the rule metadata Semgrep writes into the SARIF rule: CWE, OWASP
+ * and confidence are tags, the registry link is the help URI.
+ */
+function ruleMetadata(rule: any): SemgrepMetadata | undefined {
+    const tags: string[] = (rule?.properties?.tags ?? []).filter((tag: any) => typeof tag === 'string');
+    const metadata: SemgrepMetadata = {};
+
+    const cwe = tags.filter(tag => /^CWE-\d+/i.test(tag));
+    if (cwe.length > 0) {
+        metadata.cwe = cwe;
+    }
+    const owasp = tags.filter(tag => /^OWASP-/i.test(tag)).map(tag => tag.replace(/^OWASP-/i, ''));
+    if (owasp.length > 0) {
+        metadata.owasp = owasp;
+    }
+    const confidence = tags.map(tag => /^(HIGH|MEDIUM|LOW) CONFIDENCE$/i.exec(tag)?.[1]).find(level => level);
+    if (confidence) {
+        metadata.confidence = confidence.toUpperCase();
+    }
+    if (typeof rule?.helpUri === 'string') {
+        metadata.source = rule.helpUri;
+    }
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { spawn } from 'child_process';
+
+/**
+ * Settings of a Semgrep scan.
+ */
+export interface ScanOptions {
+    // Path of the semgrep binary
+    semgrepPath: string;
+    // Values passed to --config, e.g. "auto" or "p/owasp-top-ten"
+    configs: string[];
+    include: string[];
+    exclude: string[];
+    // Files or folders to scan, relative to cwd
+    targets: string[];
+    cwd: string;
+}
+
+/**
+ * Parsed JSON output of a scan.
+ */
+export interface ScanOutput {
+    results: any[];
+    errors: any[];
+}
+
+/**
+ * Raised when Semgrep fails without producing results.
+ */
+export class SemgrepScanError extends Error {
+    constructor(message: string, public readonly stderr: string) {
+        super(message);
+        this.name = 'SemgrepScanError';
+    }
+}
+
+/**
+ * Reads the scan settings from the configuration.
+ */
+export function getScanOptions(cwd: string): ScanOptions {
+    const config = vscode.workspace.getConfiguration('semgrepTriage');
+    return {
+        semgrepPath: config.get<string>('semgrepPath') || 'semgrep',
+        configs: config.get<string[]>('configs') ?? ['auto'],
+        include: config.get<string[]>('include') ?? [],
+        exclude: config.get<string[]>('exclude') ?? [],
+        targets: config.get<string[]>('targets') ?? [],
+        cwd
+    };
+}
+
+/**
+ * Builds the command line arguments of a scan writing JSON to the output file.
+ */
+export function buildScanArgs(options: ScanOptions, outputFile: string): string[] {
+    const args = ['scan', '--json', '--output', outputFile];
+    options.configs.forEach(config => args.push('--config', config));
+    options.include.forEach(pattern => args.push('--include', pattern));
+    options.exclude.forEach(pattern => args.push('--exclude', pattern));
+    args.push(...(options.targets.length > 0 ? options.targets : ['.']));
+    return args;
+}
+
+/**
+ * Runs Semgrep and parses its JSON output. Progress lines written to
+ * stderr are reported through `onOutput`. Cancelling the token kills the process.
+ */
+export async function runSemgrep(
+    options: ScanOptions,
+    outputFile: string,
+    token: vscode.CancellationToken,
+    onOutput: (line: string) => void
+): Promise<ScanOutput> {
+    await fs.rm(outputFile, { force: true });
+
+    const { code, stderr } = await new Promise<{ code: number | null, stderr: string }>((resolve, reject) => {
+        const child = spawn(options.semgrepPath, buildScanArgs(options, outputFile), { cwd: options.cwd });
+        let stderr = '';
+        let pending = '';
+
+        child.stderr.on('data', (chunk: Buffer) => {
+            const text = chunk.toString();
+            stderr += text;
+            const lines = (pending + text).split(/\r?\n|\r/);
+            pending = lines.pop() ?? '';
+            lines.filter(line => line.trim()).forEach(onOutput);
+        });
+        child.stdout.on('data', (chunk: Buffer) => onOutput(chunk.toString().trimEnd()));
+
+        const cancellation = token.onCancellationRequested(() => child.kill());
+        child.on('error', (e: any) => {
+            cancellation.dispose();
+            reject(e.code === 'ENOENT'
+                ? new SemgrepScanError(`Semgrep binary not found: "${options.semgrepPath}". Check the semgrepTriage.semgrepPath setting.`, '')
+                : e);
+        });
+        child.on('close', exitCode => {
+            cancellation.dispose();
+            resolve({ code: exitCode, stderr });
+        });
+    });
+
+    if (token.isCancellationRequested) {
+        throw new vscode.CancellationError();
+    }
+
+    let output: any;
+    try {
+        output = JSON.parse(await fs.readFile(outputFile, 'utf8'));
+    } catch {
+        const lastLines = stderr.trim().split(/\r?\n/).slice(-5).join('\n');
+        throw new SemgrepScanError(`Semgrep exited with code ${code} without producing results.${lastLines ? `\n${lastLines}` : ''}`, stderr);
+    }
+
+    if (!output || !Array.isArray(output.results)) {
+        throw new SemgrepScanError('Semgrep output does not contain a "results" array.', stderr);
+    }
+    return { results: output.results, errors: Array.isArray(output.errors) ? output.errors : [] };
+}
+
+/**
+ * Formats an entry of the "errors" array of the Semgrep output for the log.
+ */
+export function formatScanError(error: any): string {
+    const type = Array.isArray(error?.type) ? error.type[0] : error?.type;
+    const location = error?.path ? ` (${error.path})` : '';
+    return `[${error?.level ?? 'error'}] ${type ? `${type}: ` : ''}${error?.message ?? JSON.stringify(error)}${location}`.trim();
+}
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProgressFormatError } from './progress';
+import { TriageDecision, TriageStore, mergeTriageStores, parseTriageStore, serializeTriageStore } from './triageStore';
+import { CATEGORY_LABELS } from './types';
+
+const CONFIG_SECTION = 'semgrepTriage';
+const FILE_KEY = 'sharedTriageFile';
+
+/**
+ * Returns the configured location of the shared triage file, relative paths
+ * resolved against the first workspace folder, or else `rootPath`.
+ */
+export function getSharedTriageUri(rootPath: string): vscode.Uri {
+    const configured = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>(FILE_KEY) || '.semgrep-triage.json';
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || rootPath;
+    return vscode.Uri.file(path.isAbsolute(configured) ? configured : path.join(root, configured));
+}
+
+/**
+ * Reads and validates a shared triage file.
+ */
+export async function readTriageStore(uri: vscode.Uri): Promise<TriageStore> {
+    const fileData = await vscode.workspace.fs.readFile(uri);
+    let data: any;
+    try {
+        data = JSON.parse(Buffer.from(fileData).toString('utf8'));
+    } catch (e: any) {
+        throw new ProgressFormatError(`Not valid JSON: ${e.message}`);
+    }
+    return parseTriageStore(data);
+}
+
+/**
+ * Writes a shared triage file.
+ */
+export async function writeTriageStore(uri: vscode.Uri, store: TriageStore) {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeTriageStore(store)));
+}
+
+/**
+ * Prompts for the triage files of several reviewers and merges them. Every
+ * finding the files decided differently is shown with the competing
+ * decisions to pick from; cancelling a pick aborts the merge. The merged
+ * decisions are saved to a file of the user's choice and returned.
+ */
+export async function mergeTriageFiles(): Promise<TriageStore | undefined> {
+    const uris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: true,
+        filters: { 'JSON Files': ['json'] },
+        title: 'Select the Triage Files to Merge'
+    });
+    if (!uris || uris.length === 0) {
+        return undefined;
+    }
+
+    const files: { label: string, store: TriageStore }[] = [];
+    for (const uri of uris) {
+        const label = vscode.workspace.asRelativePath(uri);
+        try {
+            files.push({ label, store: await readTriageStore(uri) });
+        } catch (e: any) {
+            if (e instanceof ProgressFormatError) {
+                vscode.window.showErrorMessage(`Invalid triage file ${label}: ${e.message}`);
+            } else {
+                vscode.window.showErrorMessage(`Failed to read ${label}: ${e.message}`);
+            }
+            return undefined;
+        }
+    }
+
+    const { merged, conflicts } = mergeTriageStores(files);
+    for (const [index, conflict] of conflicts.entries()) {
+        const { rule, path: filePath } = conflict.options[0].decision;
+        const picks: (vscode.QuickPickItem & { decision?: TriageDecision })[] = [
+            ...conflict.options.map(({ labels, decision }) => ({
+                label: describeDecision(decision),
+                description: labels.join(', '),
+                detail: decision.note,
+                decision
+            })),
+            { label: 'Leave Out', description: 'Keep the finding out of the merged file' }
+        ];
+        const picked = await vscode.window.showQuickPick(picks, {
+            title: `Conflict ${index + 1} of ${conflicts.length}: ${rule}`,
+            placeHolder: `${filePath}: pick the decision to keep`,
+            ignoreFocusOut: true
+        });
+        if (!picked) {
+            vscode.window.showInformationMessage('Merge cancelled.');
+            return undefined;
+        }
+        if (picked.decision) {
+            merged.findings[conflict.id] = picked.decision;
+        }
+    }
+
+    const target = await vscode.window.showSaveDialog({
+        filters: { 'JSON': ['json'] },
+        defaultUri: getSharedTriageUri(path.dirname(uris[0].fsPath)),
+        title: 'Save Merged Triage File'
+    });
+    if (!target) {
+        return undefined;
+    }
+    try {
+        await writeTriageStore(target, merged);
+    } catch (e: any) {
+        vscode.window.showErrorMessage(`Failed to save the merged triage file: ${e.message}`);
+        return undefined;
+    }
+
+    const decided = Object.keys(merged.findings).length;
+    vscode.window.showInformationMessage(conflicts.length > 0
+        ? `Merged ${files.length} triage files into ${decided} decisions, ${conflicts.length} conflicts resolved.`
+        : `Merged ${files.length} triage files into ${decided} decisions without conflicts.`);
+    return merged;
+}
+
+/**
+ * Summarizes a decision for the conflict picker, e.g. "False Positive · Accepted risk".
+ */
+function describeDecision(decision: TriageDecision): string {
+    return [
+        CATEGORY_LABELS[decision.category],
+        decision.verdict,
+        decision.severityOverride && `severity ${decision.severityOverride}`
+    ].filter(part => part).join(' · ');
+}
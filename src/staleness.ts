@@ -0,0 +1,58 @@
+import { SemgrepResult } from './types';
+
+/**
+ * Where the code of a finding is in the current version of its file.
+ */
+export type FindingLocation =
+    | { status: 'current' }
+    | { status: 'moved', line: number }
+    | { status: 'stale' };
+
+/**
+ * Looks for the code Semgrep reported (`extra.lines`) in the current lines
+ * of a file, ignoring whitespace: at the recorded line, or else at the
+ * closest line holding the same code. Findings whose code is gone are
+ * stale; findings without code (e.g. "requires login") can't be checked and
+ * count as current.
+ */
+export function locateFindings(fileLines: string[], results: SemgrepResult[]): FindingLocation[] {
+    const lines = fileLines.map(compact);
+    return results.map(result => {
+        const reported = result.extra.lines.trim();
+        if (!reported || reported === 'requires login') {
+            return { status: 'current' };
+        }
+
+        const wanted = reported.split(/\r?\n/).map(compact);
+        const matchesAt = (index: number) => index >= 0 && wanted.every((line, i) => lines[index + i] === line);
+        const recorded = result.start.line - 1;
+        if (matchesAt(recorded)) {
+            return { status: 'current' };
+        }
+        for (let distance = 1; distance <= Math.max(recorded, lines.length); distance++) {
+            for (const index of [recorded - distance, recorded + distance]) {
+                if (matchesAt(index)) {
+                    return { status: 'moved', line: index + 1 };
+                }
+            }
+        }
+        return { status: 'stale' };
+    });
+}
+
+/**
+ * Moves a finding to another start line, keeping its columns and length.
+ * The first move records the location reported by the scan in `scanLocation`.
+ */
+export function moveFinding(result: SemgrepResult, line: number) {
+    if (!result.scanLocation) {
+        result.scanLocation = { start: { ...result.start }, end: { ...result.end } };
+    }
+    const delta = line - result.start.line;
+    result.start.line += delta;
+    result.end.line += delta;
+}
+
+function compact(line: string): string {
+    return line.replace(/\s+/g, '');
+}
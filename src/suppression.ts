@@ -0,0 +1,91 @@
+import { SemgrepResult } from './types';
+import { moveFinding } from './staleness';
+
+/**
+ * Comment delimiters of a language. `end` is set for block comment only languages.
+ */
+export interface CommentSyntax {
+    start: string;
+    end?: string;
+}
+
+/**
+ * Comment syntax by VS Code language ID.
+ */
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {};
+
+const LANGUAGES: [string[], CommentSyntax][] = [
+    [['c', 'cpp', 'csharp', 'dart', 'go', 'groovy', 'java', 'javascript', 'javascriptreact', 'jsonc', 'kotlin',
+        'objective-c', 'objective-cpp', 'php', 'rust', 'scala', 'scss', 'less', 'solidity', 'swift', 'typescript',
+        'typescriptreact', 'apex'], { start: '//' }],
+    [['python', 'ruby', 'shellscript', 'perl', 'r', 'yaml', 'dockerfile', 'makefile', 'terraform', 'hcl', 'toml',
+        'powershell', 'elixir', 'coffeescript', 'julia', 'nix', 'properties', 'ini'], { start: '#' }],
+    [['sql', 'lua', 'haskell', 'elm'], { start: '--' }],
+    [['clojure', 'scheme', 'lisp'], { start: ';;' }],
+    [['erlang', 'latex'], { start: '%' }],
+    [['ocaml', 'fsharp'], { start: '(*', end: '*)' }],
+    [['html', 'xml', 'vue-html', 'svelte', 'markdown'], { start: '<!--', end: '-->' }],
+    [['css'], { start: '/*', end: '*/' }]
+];
+LANGUAGES.forEach(([ids, syntax]) => ids.forEach(id => COMMENT_SYNTAX[id] = syntax));
+
+/**
+ * Returns the comment syntax of a language, or undefined when the
+ * language has no comments (e.g. JSON) or is not known.
+ */
+export function getCommentSyntax(languageId: string): CommentSyntax | undefined {
+    return COMMENT_SYNTAX[languageId];
+}
+
+/**
+ * Builds the lines inserted above a finding: the analysts' justifications,
+ * then the `nosemgrep` comment itself. Semgrep reads everything after
+ * `nosemgrep:` as rule IDs, so the justification goes on its own line.
+ */
+export function buildSuppressionLines(checkIds: string[], justifications: string[], syntax: CommentSyntax, indent = ''): string[] {
+    const comment = (text: string) => syntax.end
+        ? `${indent}${syntax.start} ${text.split(syntax.end).join('')} ${syntax.end}`
+        : `${indent}${syntax.start} ${text}`;
+
+    const lines = justifications
+        .map(note => note.replace(/\s+/g, ' ').trim())
+        .filter(note => note)
+        .map(note => comment(`False positive: ${note}`));
+    lines.push(comment(`nosemgrep: ${checkIds.join(', ')}`));
+    return lines;
+}
+
+/**
+ * Checks whether the line of a finding or the line above it already
+ * suppresses the rule, either by ID or with a bare `nosemgrep`.
+ */
+export function hasSuppression(line: string, previousLine: string, checkId: string): boolean {
+    return [line, previousLine].some(text => {
+        const match = /\bnosem(?:grep)?\b(?::\s*(.*))?/i.exec(text);
+        if (!match) {
+            return false;
+        }
+        if (!match[1]?.trim()) {
+            return true;
+        }
+        // Registry rules are often referenced by the last part of their ID
+        return match[1].split(/[\s,]+/)
+            .map(id => id.replace(/(\*\)|\*\/|-->)$/, ''))
+            .some(id => id && (id === checkId || checkId.endsWith(`.${id}`)));
+    });
+}
+
+/**
+ * Moves the findings of a file down after lines were inserted into it.
+ * An insertion at a finding's first line moves the finding as well.
+ */
+export function shiftResultLines(items: SemgrepResult[], insertions: { line: number, count: number }[]) {
+    for (const item of items) {
+        const delta = insertions
+            .filter(insertion => insertion.line <= item.start.line)
+            .reduce((sum, insertion) => sum + insertion.count, 0);
+        if (delta !== 0) {
+            moveFinding(item, item.start.line + delta);
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { applyAutoTriagePolicies } from '../autoTriage';
+import { matchesGlob } from '../glob';
+import { TriageResults } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Auto-Triage Test Suite', () => {
+	test('Matches path globs', () => {
+		assert.ok(matchesGlob('test/unit/app.spec.ts', 'test/**'));
+		assert.ok(matchesGlob('./src/test/app.ts', 'test'));
+		assert.ok(matchesGlob('src\\app.py', 'src/*.py'));
+		assert.ok(!matchesGlob('src/lib/app.py', 'src/*.py'));
+		assert.ok(!matchesGlob('src/app.ts', 'test/**'));
+	});
+
+	test('Moves matching untriaged findings only', () => {
+		const results: TriageResults = {
+			untriaged: [
+				makeFinding({ id: 'a', check_id: 'js.noisy', path: 'test/a.js' }),
+				makeFinding({ id: 'b', check_id: 'js.noisy', path: 'src/b.js' }),
+				makeFinding({ id: 'c', check_id: 'js.other', path: 'test/c.js' })
+			],
+			issues: [],
+			falsePositives: [],
+			fixed: []
+		};
+		const moved = applyAutoTriagePolicies(results, [{ rule: 'js.noisy', path: 'test/**', verdict: 'falsePositives' }]);
+		assert.strictEqual(moved, 1);
+		assert.deepStrictEqual(results.untriaged.map(r => r.id), ['b', 'c']);
+		assert.deepStrictEqual(results.falsePositives.map(r => r.id), ['a']);
+		assert.strictEqual(results.falsePositives[0].note, 'Auto-triage policy js.noisy under test/**');
+	});
+
+	test('Supports rule wildcards', () => {
+		const results: TriageResults = { untriaged: [makeFinding({ id: 'a', check_id: 'python.lang.eval', path: 'x.py' })], issues: [], falsePositives: [], fixed: [] };
+		applyAutoTriagePolicies(results, [{ rule: 'python.*', verdict: 'issues' }]);
+		assert.deepStrictEqual(results.issues.map(r => r.id), ['a']);
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { applyFix, fixedText, hasFix, matchesReportedCode } from '../autofix';
+import { SemgrepResult } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Autofix Test Suite', () => {
+	function finding(extra: Partial<SemgrepResult['extra']>, start = { line: 2, col: 5 }, end = { line: 2, col: 20 }): SemgrepResult {
+		return makeFinding({ check_id: 'python.lang.yaml-load', start, end, extra: { lines: '    yaml.load(data)', ...extra } });
+	}
+
+	const text = 'import yaml\n    yaml.load(data)\nprint(1)\n';
+
+	test('Detects findings with a fix', () => {
+		assert.ok(hasFix(finding({ fix: '' })));
+		assert.ok(hasFix(finding({ fix_regex: { regex: 'a', replacement: 'b' } })));
+		assert.ok(!hasFix(finding({})));
+	});
+
+	test('Replaces the matched range with the fix', () => {
+		const fixed = applyFix(text, finding({ fix: 'yaml.safe_load(data)' }));
+		assert.strictEqual(fixed, 'import yaml\n    yaml.safe_load(data)\nprint(1)\n');
+	});
+
+	test('Applies regex fixes within the match', () => {
+		const result = finding({ fix_regex: { regex: '(\\w+)\\.load\\((?P<arg>\\w+)\\)', replacement: '\\1.safe_load(\\g<arg>)' } });
+		assert.strictEqual(applyFix(text, result), 'import yaml\n    yaml.safe_load(data)\nprint(1)\n');
+	});
+
+	test('Respects the replacement count', () => {
+		const result = finding({ fix_regex: { regex: 'a', replacement: 'o', count: 1 } });
+		assert.strictEqual(fixedText('banana', result), 'bonana');
+		assert.strictEqual(fixedText('banana', finding({ fix_regex: { regex: 'a', replacement: 'o', count: 0 } })), 'bonono');
+	});
+
+	test('Ignores invalid regexes', () => {
+		assert.strictEqual(fixedText('x', finding({ fix_regex: { regex: '(', replacement: '' } })), undefined);
+		assert.strictEqual(applyFix(text, finding({})), undefined);
+	});
+
+	test('Detects code that changed since the scan', () => {
+		const result = finding({});
+		assert.ok(matchesReportedCode('yaml.load( data )', result));
+		assert.ok(!matchesReportedCode('yaml.safe_load(data)', result));
+		assert.ok(matchesReportedCode('anything', finding({ lines: 'requires login' })));
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { compareWithBaseline } from '../baseline';
+import { SemgrepResult, TriageResults } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Baseline Test Suite', () => {
+	const finding = (id: string, lines: string, line = 1): SemgrepResult => makeFinding({ id, start: { line, col: 1 }, end: { line, col: 10 }, extra: { lines } });
+
+	test('Sorts findings into new, still present and resolved', () => {
+		const baseline: TriageResults = {
+			untriaged: [],
+			issues: [finding('old-issue', 'eval(a)')],
+			falsePositives: [{ ...finding('old-fp', 'eval(b)'), verdict: 'Accepted risk' }, finding('gone', 'eval(c)')],
+			fixed: []
+		};
+		const current: TriageResults = {
+			// Moved down by a few lines, still the same finding
+			untriaged: [finding('x', 'eval(b)', 20), finding('y', 'eval(new)')],
+			issues: [finding('z', 'eval(a)')],
+			falsePositives: [],
+			fixed: []
+		};
+
+		const comparison = compareWithBaseline(current, baseline);
+		assert.deepStrictEqual(comparison.newIds, ['y']);
+		assert.deepStrictEqual(comparison.stillPresent.map(s => [s.id, s.baselineCategory, s.baseline.verdict]), [
+			['x', 'falsePositives', 'Accepted risk'],
+			['z', 'issues', undefined]
+		]);
+		assert.deepStrictEqual(comparison.resolved.map(r => [r.item.id, r.category]), [['gone', 'falsePositives']]);
+	});
+
+	test('Matches identical findings one to one', () => {
+		const baseline: TriageResults = { untriaged: [finding('a', 'eval(x)')], issues: [], falsePositives: [], fixed: [] };
+		const current: TriageResults = { untriaged: [finding('b', 'eval(x)'), finding('c', 'eval(x)', 5)], issues: [], falsePositives: [], fixed: [] };
+
+		const comparison = compareWithBaseline(current, baseline);
+		assert.deepStrictEqual(comparison.stillPresent.map(s => s.id), ['b']);
+		assert.deepStrictEqual(comparison.newIds, ['c']);
+	});
+});
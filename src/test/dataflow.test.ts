@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { dataflowSteps } from '../dataflow';
+import { SemgrepResult } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Dataflow Test Suite', () => {
+	function finding(dataflow_trace?: any): SemgrepResult {
+		return makeFinding({ check_id: 'python.flask.tainted-sql', start: { line: 9, col: 5 }, end: { line: 9, col: 30 }, extra: { dataflow_trace } });
+	}
+
+	function location(path: string, line: number) {
+		return { path, start: { line, col: 5, offset: 0 }, end: { line, col: 12, offset: 7 } };
+	}
+
+	test('Lists source, intermediate variables and sink in order', () => {
+		const steps = dataflowSteps(finding({
+			taint_source: ['CliLoc', [location('app.py', 3), 'request.args']],
+			intermediate_vars: [{ location: location('app.py', 5), content: 'name' }],
+			taint_sink: ['CliLoc', [location('app.py', 9), 'cursor.execute(query)']]
+		}));
+		assert.deepStrictEqual(steps.map(step => [step.kind, step.start.line, step.content]), [
+			['source', 3, 'request.args'],
+			['intermediate', 5, 'name'],
+			['sink', 9, 'cursor.execute(query)']
+		]);
+		assert.deepStrictEqual(steps[0].end, { line: 3, col: 12 });
+	});
+
+	test('Follows cross-function call traces', () => {
+		const steps = dataflowSteps(finding({
+			taint_source: ['CliCall', [
+				[location('app.py', 4), 'get_name()'],
+				[{ location: location('util.py', 2), content: 'value' }],
+				['CliLoc', [location('util.py', 1), 'input()']]
+			]],
+			taint_sink: ['CliCall', [
+				[location('app.py', 9), 'run(name)'],
+				[],
+				['CliLoc', [location('db.py', 7), 'execute(sql)']]
+			]]
+		}));
+		assert.deepStrictEqual(steps.map(step => [step.kind, step.path, step.start.line]), [
+			['source', 'util.py', 1],
+			['intermediate', 'util.py', 2],
+			['intermediate', 'app.py', 4],
+			['intermediate', 'app.py', 9],
+			['sink', 'db.py', 7]
+		]);
+	});
+
+	test('Ignores missing or malformed traces', () => {
+		assert.deepStrictEqual(dataflowSteps(finding()), []);
+		assert.deepStrictEqual(dataflowSteps(finding({ taint_source: ['CliLoc', [{ path: 'a.py' }, 'x']], intermediate_vars: 'x' })), []);
+	});
+});
@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { updateFindingDetails } from '../findingDetails';
+import { makeFinding } from './fixtures';
+
+suite('Finding Details Test Suite', () => {
+	test('Saves the note, verdict and severity override', () => {
+		const item = makeFinding({ note: 'old' });
+		assert.strictEqual(updateFindingDetails(item, 'issues', { note: '  reachable ', verdict: 'Needs review', severityOverride: '' }, true), true);
+		assert.deepStrictEqual([item.note, item.verdict, item.severityOverride], ['reachable', 'Needs review', undefined]);
+		assert.strictEqual(updateFindingDetails(item, 'issues', { note: ' ' }, true), true);
+		assert.strictEqual(item.note, undefined);
+	});
+
+	test('Keeps the justification of a false positive when it is cleared', () => {
+		const item = makeFinding({ note: 'constant input' });
+		assert.strictEqual(updateFindingDetails(item, 'falsePositives', { note: '  ', verdict: 'Accepted risk' }, true), false);
+		assert.deepStrictEqual([item.note, item.verdict], ['constant input', 'Accepted risk']);
+		assert.strictEqual(updateFindingDetails(item, 'falsePositives', { note: '' }, false), true);
+		assert.strictEqual(item.note, undefined);
+	});
+});
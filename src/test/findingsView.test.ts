@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { DEFAULT_VIEW_OPTIONS, ViewOptions, buildFacets, buildRows, filterEntries, parseViewOptions } from '../findingsView';
+import { SemgrepResult } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Findings View Test Suite', () => {
+	function finding(id: string, check_id: string, path: string, severity: string, metadata?: any): SemgrepResult {
+		return makeFinding({ id, check_id, path, extra: { message: `message ${id}`, severity, metadata } });
+	}
+
+	const items = [
+		finding('a', 'python.eval', 'src/app.py', 'WARNING', { confidence: 'LOW', cwe: ['CWE-95: Eval Injection'] }),
+		finding('b', 'python.sqli', 'tests/test_app.py', 'ERROR', { confidence: 'HIGH', cwe: ['CWE-89: SQL Injection'] }),
+		finding('c', 'python.eval', 'src/lib/util.py', 'ERROR', { confidence: 'MEDIUM' })
+	];
+	const entries = items.map(item => ({ item, category: 'untriaged' as const }));
+
+	function options(changes: Partial<ViewOptions>): ViewOptions {
+		return { ...DEFAULT_VIEW_OPTIONS, ...changes };
+	}
+
+	function ids(shown: { item: SemgrepResult }[]): string[] {
+		return shown.map(entry => entry.item.id);
+	}
+
+	test('Reads view options, ignoring malformed values', () => {
+		const parsed = parseViewOptions({ text: 'eval', rules: ['python.eval', 3], groupBy: 'folder', collapsed: ['untriaged:x'] });
+		assert.strictEqual(parsed.text, 'eval');
+		assert.deepStrictEqual(parsed.rules, []);
+		assert.strictEqual(parsed.groupBy, 'none');
+		assert.deepStrictEqual(parsed.collapsed, ['untriaged:x']);
+		assert.deepStrictEqual(parseViewOptions(undefined), DEFAULT_VIEW_OPTIONS);
+	});
+
+	test('Filters by severity, confidence, CWE, path and staleness', () => {
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ hiddenSeverities: ['WARNING'] }))), ['b', 'c']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ confidence: 'MEDIUM' }))), ['b', 'c']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ cwe: '89, 1' }))), ['b']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ include: 'src/**', exclude: '**/lib/**' }))), ['a']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ text: 'MESSAGE C' }))), ['c']);
+		const stale = [...entries, { item: { ...items[0], id: 'd', stale: true }, category: 'untriaged' as const }];
+		assert.deepStrictEqual(ids(filterEntries(stale, options({ stale: 'only' }))), ['d']);
+		assert.deepStrictEqual(ids(filterEntries(stale, options({ stale: 'hide' }))), ['a', 'b', 'c']);
+	});
+
+	test('Sorts stably, keeping the scan order for ties', () => {
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ sortBy: 'severity' }))), ['b', 'c', 'a']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ sortBy: 'rule' }))), ['a', 'c', 'b']);
+		assert.deepStrictEqual(ids(filterEntries(entries, options({ sortBy: 'unknown' }))), ['a', 'b', 'c']);
+	});
+
+	test('Groups rows, skipping collapsed groups and adding expanded metadata rows', () => {
+		const view = options({ groupBy: 'rule', collapsed: ['untriaged:python.sqli'], expanded: ['c'] });
+		const rows = buildRows('untriaged', filterEntries(entries, view), view);
+		assert.deepStrictEqual(rows.map(row => row.kind === 'group' ? `${row.key} (${row.count})` : `${row.kind} ${row.item.id}`), [
+			'python.eval (2)',
+			'item a',
+			'item c',
+			'metadata c',
+			'python.sqli (1)'
+		]);
+		assert.strictEqual(buildRows('baselineNew', filterEntries(entries, view), view, false).length, 4);
+	});
+
+	test('Counts rules and sources for the filter bar', () => {
+		const facets = buildFacets([...items, { ...items[0], id: 'd', sources: ['ci.json'] }]);
+		assert.deepStrictEqual(facets.severities, ['ERROR', 'WARNING']);
+		assert.deepStrictEqual(facets.rules, [['python.eval', 3], ['python.sqli', 1]]);
+		assert.deepStrictEqual(facets.sources, [['ci.json', 1]]);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { applyPreviousDecisions, assignFingerprintIds, fingerprintResult } from '../fingerprint';
+import { TriageResults } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Fingerprint Test Suite', () => {
+	const finding = makeFinding({ start: { line: 10, col: 1 }, end: { line: 10, col: 12 } });
+
+	test('Ignores moved lines and re-indentation', () => {
+		const moved = { ...finding, start: { line: 42, col: 5 }, extra: { ...finding.extra, lines: '    eval(input)' } };
+		assert.strictEqual(fingerprintResult(moved), fingerprintResult(finding));
+	});
+
+	test('Differs by rule and path', () => {
+		assert.notStrictEqual(fingerprintResult({ ...finding, check_id: 'other' }), fingerprintResult(finding));
+		assert.notStrictEqual(fingerprintResult({ ...finding, path: 'other.py' }), fingerprintResult(finding));
+	});
+
+	test('Prefers the Semgrep fingerprint unless it requires login', () => {
+		assert.strictEqual(fingerprintResult({ ...finding, extra: { ...finding.extra, fingerprint: 'abc' } }), 'abc');
+		assert.strictEqual(
+			fingerprintResult({ ...finding, extra: { ...finding.extra, fingerprint: 'requires login' } }),
+			fingerprintResult(finding)
+		);
+	});
+
+	test('Keeps identical findings apart', () => {
+		const [first, second] = assignFingerprintIds([finding, finding]);
+		assert.strictEqual(first.id, fingerprintResult(finding));
+		assert.strictEqual(second.id, `${fingerprintResult(finding)}:1`);
+	});
+
+	test('Applies one previous decision per finding', () => {
+		const [item] = assignFingerprintIds([finding]);
+		const current: TriageResults = { untriaged: [item], issues: [], falsePositives: [], fixed: [] };
+		const previous: TriageResults = {
+			untriaged: [],
+			issues: [{ ...item, note: 'first' }],
+			falsePositives: [{ ...item, id: `${item.id}:1`, note: 'second' }],
+			fixed: []
+		};
+		const { applied, unmatched } = applyPreviousDecisions(current, previous);
+		assert.strictEqual(applied, 1);
+		assert.deepStrictEqual(unmatched.map(decision => decision.item.note), ['second']);
+		assert.deepStrictEqual([current.untriaged, current.issues.map(issue => issue.note), current.falsePositives], [[], ['first'], []]);
+	});
+
+	test('Keeps findings fixed in this session fixed', () => {
+		const [item] = assignFingerprintIds([finding]);
+		const current: TriageResults = { untriaged: [], issues: [], falsePositives: [], fixed: [item] };
+		const previous: TriageResults = { untriaged: [], issues: [{ ...item, note: 'unsafe' }], falsePositives: [], fixed: [] };
+		assert.strictEqual(applyPreviousDecisions(current, previous).applied, 1);
+		assert.deepStrictEqual([current.issues, current.fixed.map(fixed => fixed.note)], [[], ['unsafe']]);
+	});
+});
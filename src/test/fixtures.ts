@@ -0,0 +1,21 @@
+import { SemgrepResult } from '../types';
+
+/**
+ * Overrides of a test finding; `extra` is merged into the default one.
+ */
+export type FindingOverrides = Partial<Omit<SemgrepResult, 'extra'>> & { extra?: Partial<SemgrepResult['extra']> };
+
+/**
+ * Creates a finding for tests: an `eval` call on the first line of `app.py`.
+ */
+export function makeFinding(overrides: FindingOverrides = {}): SemgrepResult {
+	return {
+		id: 'a',
+		check_id: 'python.eval',
+		path: 'app.py',
+		start: { line: 1, col: 1 },
+		end: { line: 1, col: 10 },
+		...overrides,
+		extra: { message: '', severity: 'ERROR', lines: 'eval(input)', ...overrides.extra }
+	};
+}
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { cweIds, normalizeMetadata } from '../metadata';
+
+suite('Metadata Test Suite', () => {
+	test('Normalizes the rule metadata', () => {
+		const metadata = normalizeMetadata({
+			cwe: 'CWE-89: Improper Neutralization of Special Elements used in an SQL Command',
+			owasp: ['A03:2021 - Injection', 'A01:2017 - Injection'],
+			confidence: 'high',
+			likelihood: 'Medium',
+			impact: 3,
+			references: 'https://owasp.org/Top10/A03_2021-Injection',
+			'source-rule-url': 'https://semgrep.dev/r/python.sqlalchemy.sqli',
+			category: 'security'
+		});
+		assert.deepStrictEqual(metadata, {
+			cwe: ['CWE-89: Improper Neutralization of Special Elements used in an SQL Command'],
+			owasp: ['A03:2021 - Injection', 'A01:2017 - Injection'],
+			confidence: 'HIGH',
+			likelihood: 'MEDIUM',
+			references: ['https://owasp.org/Top10/A03_2021-Injection'],
+			'source-rule-url': 'https://semgrep.dev/r/python.sqlalchemy.sqli',
+			source: 'https://semgrep.dev/r/python.sqlalchemy.sqli',
+			category: 'security'
+		});
+	});
+
+	test('Ignores missing metadata', () => {
+		assert.strictEqual(normalizeMetadata(undefined), undefined);
+		assert.strictEqual(normalizeMetadata(['not', 'an', 'object']), undefined);
+	});
+
+	test('Extracts CWE IDs', () => {
+		assert.deepStrictEqual(cweIds({ cwe: ['CWE-79: Cross-site Scripting', 'cwe-80', 'not a cwe'] }), ['CWE-79', 'CWE-80']);
+		assert.deepStrictEqual(cweIds(undefined), []);
+	});
+});
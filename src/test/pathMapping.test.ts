@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { candidatePaths, commonDirectory } from '../pathMapping';
+
+suite('Path Mapping Test Suite', () => {
+	const roots = [{ name: 'api', path: '/work/api' }, { name: 'web', path: '/work/web' }];
+
+	test('Tries relative paths against every root', () => {
+		assert.deepStrictEqual(candidatePaths('src/app.py', [], roots), [
+			path.normalize('/work/api/src/app.py'),
+			path.normalize('/work/web/src/app.py')
+		]);
+	});
+
+	test('Rewrites the longest matching prefix first', () => {
+		const mappings = [
+			{ from: '/src', to: '${workspaceFolder}' },
+			{ from: '/src/frontend/', to: '${workspaceFolder:web}' }
+		];
+		assert.deepStrictEqual(candidatePaths('/src/frontend/index.js', mappings, roots)[0], path.normalize('/work/web/index.js'));
+		assert.deepStrictEqual(candidatePaths('/src/main.py', mappings, roots), [
+			path.normalize('/work/api/main.py'),
+			path.normalize('/src/main.py')
+		]);
+	});
+
+	test('Only matches whole path segments', () => {
+		const mappings = [{ from: '/src', to: '/work/api' }];
+		assert.deepStrictEqual(candidatePaths('/srcs/main.py', mappings, roots), [path.normalize('/srcs/main.py')]);
+	});
+
+	test('Resolves relative mapping targets against the roots', () => {
+		const mappings = [{ from: 'C:\\build\\repo', to: 'backend' }];
+		assert.deepStrictEqual(candidatePaths('C:\\build\\repo\\app.py', mappings, roots).slice(0, 2), [
+			path.normalize('/work/api/backend/app.py'),
+			path.normalize('/work/web/backend/app.py')
+		]);
+	});
+
+	test('Finds the common directory of missing files', () => {
+		assert.strictEqual(commonDirectory(['/src/app/a.py', '/src/lib/b.py']), '/src/');
+		assert.strictEqual(commonDirectory(['a.py', 'lib/b.py']), '');
+		assert.strictEqual(commonDirectory([]), '');
+	});
+});
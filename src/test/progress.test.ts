@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { PROGRESS_FORMAT_VERSION, ProgressFormatError, createProgressFile, parseProgressFile } from '../progress';
+
+suite('Progress File Test Suite', () => {
+	const result = {
+		id: 'abc',
+		check_id: 'python.lang.eval',
+		path: 'app.py',
+		start: { line: 1, col: 1 },
+		end: { line: 1, col: 10 },
+		extra: { message: 'Avoid eval', severity: 'ERROR', lines: 'eval(x)' }
+	};
+
+	test('Round-trips the current format', () => {
+		const saved = createProgressFile({ untriaged: [], issues: [result], falsePositives: [], fixed: [] }, { path: '/scan.json', sha256: 'ff' }, []);
+		const loaded = parseProgressFile(JSON.parse(JSON.stringify(saved)));
+		assert.strictEqual(loaded.formatVersion, PROGRESS_FORMAT_VERSION);
+		assert.deepStrictEqual(loaded.results.issues, [result]);
+		assert.deepStrictEqual(loaded.source, { path: '/scan.json', sha256: 'ff' });
+	});
+
+	test('Migrates unversioned progress files', () => {
+		const loaded = parseProgressFile({ untriaged: [result], issues: [], falsePositives: [] });
+		assert.strictEqual(loaded.formatVersion, PROGRESS_FORMAT_VERSION);
+		assert.strictEqual(loaded.source, null);
+		assert.deepStrictEqual(loaded.results.untriaged, [result]);
+		assert.deepStrictEqual(loaded.audit, []);
+	});
+
+	test('Migrates version 1 files', () => {
+		const loaded = parseProgressFile({
+			formatVersion: 1,
+			source: null,
+			savedAt: '2025-01-31T12:00:00.000Z',
+			results: { untriaged: [], issues: [result], falsePositives: [] }
+		});
+		assert.strictEqual(loaded.formatVersion, PROGRESS_FORMAT_VERSION);
+		assert.deepStrictEqual(loaded.audit, []);
+		assert.deepStrictEqual(loaded.results.fixed, []);
+	});
+
+	test('Rejects Semgrep results files', () => {
+		assert.throws(() => parseProgressFile({ results: [], errors: [] }), /Semgrep results file/);
+	});
+
+	test('Names the invalid field', () => {
+		const broken = { ...result, start: { line: '1', col: 1 } };
+		assert.throws(
+			() => parseProgressFile({ untriaged: [], issues: [broken], falsePositives: [] }),
+			(e: Error) => e instanceof ProgressFormatError && e.message.startsWith('results.issues[0].start.line:')
+		);
+	});
+
+	test('Rejects newer format versions', () => {
+		assert.throws(() => parseProgressFile({ formatVersion: PROGRESS_FORMAT_VERSION + 1 }), /newer than the supported version/);
+	});
+});
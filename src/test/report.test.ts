@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { buildReport } from '../report';
+import { SemgrepResult, TriageResults } from '../types';
+
+suite('Report Test Suite', () => {
+	const issue: SemgrepResult = {
+		id: 'a',
+		check_id: 'python.lang.eval',
+		path: 'app/main.py',
+		start: { line: 12, col: 5 },
+		end: { line: 12, col: 15 },
+		extra: { message: 'Avoid eval', severity: 'WARNING', lines: 'eval(data)' },
+		note: 'Reachable from the API',
+		severityOverride: 'ERROR'
+	};
+	const results: TriageResults = {
+		untriaged: [],
+		issues: [issue],
+		falsePositives: [{ ...issue, id: 'b', path: 'test/x.py', note: '=HYPERLINK("x")' }],
+		fixed: []
+	};
+	const info = { sourcePath: '/scans/semgrep.json', generatedAt: new Date('2025-01-31T12:00:00Z') };
+
+	test('Markdown lists confirmed issues with notes', () => {
+		const report = buildReport('markdown', results, info);
+		assert.ok(report.includes('| Issues | 1 |'));
+		assert.ok(report.includes('| ERROR | 2 |'));
+		assert.ok(report.includes('`app/main.py:12`'));
+		assert.ok(report.includes('> **Analyst note:** Reachable from the API'));
+		assert.ok(!report.includes('test/x.py'));
+	});
+
+	test('HTML escapes content', () => {
+		const report = buildReport('html', { ...results, issues: [{ ...issue, extra: { ...issue.extra, lines: '<script>' } }] }, info);
+		assert.ok(report.includes('&lt;script&gt;'));
+		assert.ok(!report.includes('<script>'));
+	});
+
+	test('CSV has one row per finding and neutralizes formulas', () => {
+		const rows = buildReport('csv', results, info).trim().split('\r\n');
+		assert.strictEqual(rows.length, 3);
+		assert.strictEqual(rows[1], 'issues,python.lang.eval,ERROR,app/main.py,12,Avoid eval,,Reachable from the API,eval(data)');
+		assert.ok(rows[2].includes(`"'=HYPERLINK(""x"")"`));
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { mergeResults, tagSource } from '../resultsFile';
+import { moveFinding } from '../staleness';
+import { SemgrepResult, TriageResults } from '../types';
+import { FindingOverrides, makeFinding } from './fixtures';
+
+suite('Results File Test Suite', () => {
+	const finding = (line: number, overrides: FindingOverrides = {}): SemgrepResult => makeFinding({ path: 'app/main.py', start: { line, col: 5 }, end: { line, col: 15 }, ...overrides });
+
+	test('Tags findings with their source', () => {
+		const tagged = tagSource([finding(1)], 'scans/python.json');
+		assert.deepStrictEqual(tagged[0].sources, ['scans/python.json']);
+	});
+
+	test('Skips findings already in the session and records the new source', () => {
+		const existing: SemgrepResult = { ...finding(1), id: 'a', sources: ['first.json'], note: 'Checked' };
+		const results: TriageResults = { untriaged: [], issues: [existing], falsePositives: [], fixed: [] };
+
+		const { added, duplicates } = mergeResults(results, tagSource([
+			finding(1, { path: './app/main.py' }),
+			finding(2),
+			finding(2)
+		], 'second.json'));
+
+		assert.strictEqual(duplicates, 2);
+		assert.strictEqual(added.length, 1);
+		assert.deepStrictEqual(existing.sources, ['first.json', 'second.json']);
+		assert.deepStrictEqual(results.untriaged.map(item => item.start.line), [2]);
+	});
+
+	test('Matches relocated findings at their scan and current location', () => {
+		const existing: SemgrepResult = { ...finding(1), id: 'a', note: 'Checked' };
+		const results: TriageResults = { untriaged: [], issues: [existing], falsePositives: [], fixed: [] };
+		moveFinding(existing, 4);
+
+		const { added, duplicates } = mergeResults(results, [finding(1), finding(4)]);
+		assert.strictEqual(duplicates, 2);
+		assert.deepStrictEqual(added, []);
+		assert.deepStrictEqual([existing.start.line, existing.scanLocation?.start.line], [4, 1]);
+	});
+
+	test('Keeps IDs unique when fingerprints collide', () => {
+		const results: TriageResults = { untriaged: [], issues: [], falsePositives: [], fixed: [] };
+		// Same rule, path and snippet on different lines share a fingerprint
+		const { added } = mergeResults(results, [finding(1), finding(7)]);
+		assert.strictEqual(added.length, 2);
+		assert.notStrictEqual(added[0].id, added[1].id);
+		assert.strictEqual(added[1].id, `${added[0].id}:1`);
+	});
+});
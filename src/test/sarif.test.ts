@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { buildSarifLog, isSarifLog, sarifToSemgrepResults } from '../sarif';
+
+suite('SARIF Test Suite', () => {
+	const log = {
+		version: '2.1.0',
+		runs: [{
+			tool: { driver: { name: 'Semgrep', rules: [{ id: 'python.lang.eval', defaultConfiguration: { level: 'error' } }] } },
+			results: [{
+				ruleId: 'python.lang.eval',
+				message: { text: 'Avoid eval' },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: 'src/app%20main.py' },
+						region: { startLine: 3, startColumn: 5, endLine: 3, endColumn: 20, snippet: { text: 'eval(data)' } }
+					}
+				}],
+				fingerprints: { 'matchBasedId/v1': 'abc123' }
+			}]
+		}]
+	};
+
+	test('Detects SARIF logs', () => {
+		assert.ok(isSarifLog(log));
+		assert.ok(!isSarifLog({ results: [] }));
+	});
+
+	test('Maps SARIF results onto Semgrep results', () => {
+		const [result] = sarifToSemgrepResults(log);
+		assert.strictEqual(result.check_id, 'python.lang.eval');
+		assert.strictEqual(result.path, 'src/app main.py');
+		assert.deepStrictEqual(result.start, { line: 3, col: 5 });
+		assert.deepStrictEqual(result.end, { line: 3, col: 20 });
+		assert.strictEqual(result.extra.severity, 'ERROR');
+		assert.strictEqual(result.extra.lines, 'eval(data)');
+		assert.strictEqual(result.extra.fingerprint, 'abc123');
+	});
+
+	test('Recovers the rule metadata from the tags', () => {
+		const rule = {
+			id: 'python.lang.eval',
+			helpUri: 'https://semgrep.dev/r/python.lang.eval',
+			properties: { tags: ['CWE-95: Eval Injection', 'OWASP-A03:2021 - Injection', 'HIGH CONFIDENCE', 'security'] }
+		};
+		const run = { ...log.runs[0], tool: { driver: { name: 'Semgrep', rules: [rule] } } };
+		const [result] = sarifToSemgrepResults({ ...log, runs: [run] });
+		assert.deepStrictEqual(result.extra.metadata, {
+			cwe: ['CWE-95: Eval Injection'],
+			owasp: ['A03:2021 - Injection'],
+			confidence: 'HIGH',
+			source: 'https://semgrep.dev/r/python.lang.eval'
+		});
+	});
+
+	test('Suppresses false positives on export', () => {
+		const [result] = sarifToSemgrepResults(log);
+		const exported = buildSarifLog({
+			untriaged: [],
+			issues: [{ ...result, id: 'a' }],
+			falsePositives: [{ ...result, id: 'b' }],
+			fixed: []
+		});
+		const [issue, falsePositive] = exported.runs[0].results;
+		assert.strictEqual(issue.suppressions, undefined);
+		assert.deepStrictEqual(falsePositive.suppressions, [{ kind: 'external', status: 'accepted' }]);
+		assert.strictEqual(issue.locations[0].physicalLocation.artifactLocation.uri, 'src/app%20main.py');
+	});
+});
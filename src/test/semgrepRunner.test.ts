@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { ScanOptions, buildScanArgs, formatScanError } from '../semgrepRunner';
+
+suite('Semgrep Runner Test Suite', () => {
+	const options: ScanOptions = {
+		semgrepPath: 'semgrep',
+		configs: ['auto', 'p/secrets'],
+		include: ['*.py'],
+		exclude: ['tests/'],
+		targets: [],
+		cwd: '/project'
+	};
+
+	test('Builds the scan arguments', () => {
+		assert.deepStrictEqual(buildScanArgs(options, '/tmp/out.json'), [
+			'scan', '--json', '--output', '/tmp/out.json',
+			'--config', 'auto', '--config', 'p/secrets',
+			'--include', '*.py',
+			'--exclude', 'tests/',
+			'.'
+		]);
+	});
+
+	test('Scans the configured targets instead of the folder', () => {
+		const args = buildScanArgs({ ...options, targets: ['src', 'lib'] }, '/tmp/out.json');
+		assert.deepStrictEqual(args.slice(-2), ['src', 'lib']);
+		assert.ok(!args.includes('.'));
+	});
+
+	test('Formats Semgrep errors', () => {
+		assert.strictEqual(
+			formatScanError({ level: 'warn', type: ['PartialParsing', []], message: 'Syntax error', path: 'a.py' }),
+			'[warn] PartialParsing: Syntax error (a.py)'
+		);
+		assert.strictEqual(formatScanError({ message: 'Timeout' }), '[error] Timeout');
+	});
+});
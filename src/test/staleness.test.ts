@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { locateFindings, moveFinding } from '../staleness';
+import { SemgrepResult } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Staleness Test Suite', () => {
+	function finding(line: number, lines: string, endLine = line): SemgrepResult {
+		return makeFinding({ start: { line, col: 5 }, end: { line: endLine, col: 20 }, extra: { lines } });
+	}
+
+	const file = [
+		'import os',
+		'',
+		'def run(data):',
+		'    eval(data)',
+		'    os.system(',
+		'        data)',
+		''
+	];
+
+	test('Keeps findings whose code is at the recorded line', () => {
+		assert.deepStrictEqual(locateFindings(file, [finding(4, 'eval(data)'), finding(5, '    os.system(\n        data)', 6)]), [
+			{ status: 'current' },
+			{ status: 'current' }
+		]);
+	});
+
+	test('Finds moved code at the closest line, ignoring whitespace', () => {
+		const moved = ['# header', '', ...file, 'def again(data):', '  eval( data )'];
+		assert.deepStrictEqual(locateFindings(moved, [finding(4, '    eval(data)'), finding(5, 'os.system(\ndata)', 6)]), [
+			{ status: 'moved', line: 6 },
+			{ status: 'moved', line: 7 }
+		]);
+		assert.deepStrictEqual(locateFindings(moved, [finding(10, 'eval(data)')]), [{ status: 'moved', line: 11 }]);
+	});
+
+	test('Flags findings whose code no longer exists', () => {
+		assert.deepStrictEqual(locateFindings(['import os'], [finding(4, 'eval(data)'), finding(1, 'requires login'), finding(1, '')]), [
+			{ status: 'stale' },
+			{ status: 'current' },
+			{ status: 'current' }
+		]);
+	});
+
+	test('Moves a finding with its end line', () => {
+		const item = finding(5, 'os.system(\ndata)', 6);
+		moveFinding(item, 9);
+		assert.deepStrictEqual([item.start, item.end], [{ line: 9, col: 5 }, { line: 10, col: 20 }]);
+		moveFinding(item, 12);
+		assert.deepStrictEqual(item.scanLocation, { start: { line: 5, col: 5 }, end: { line: 6, col: 20 } });
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { buildSuppressionLines, getCommentSyntax, hasSuppression, shiftResultLines } from '../suppression';
+import { makeFinding } from './fixtures';
+
+suite('Suppression Test Suite', () => {
+	test('Uses the comment syntax of the language', () => {
+		assert.deepStrictEqual(getCommentSyntax('python'), { start: '#' });
+		assert.deepStrictEqual(getCommentSyntax('typescript'), { start: '//' });
+		assert.deepStrictEqual(getCommentSyntax('html'), { start: '<!--', end: '-->' });
+		assert.strictEqual(getCommentSyntax('json'), undefined);
+	});
+
+	test('Puts the justification above the nosemgrep comment', () => {
+		assert.deepStrictEqual(
+			buildSuppressionLines(['python.lang.eval', 'python.lang.exec'], ['Input is a\nconstant', ''], { start: '#' }, '    '),
+			[
+				'    # False positive: Input is a constant',
+				'    # nosemgrep: python.lang.eval, python.lang.exec'
+			]
+		);
+	});
+
+	test('Closes block comments', () => {
+		assert.deepStrictEqual(
+			buildSuppressionLines(['css.rule'], ['Ends with */ here'], { start: '/*', end: '*/' }),
+			['/* False positive: Ends with  here */', '/* nosemgrep: css.rule */']
+		);
+	});
+
+	test('Recognizes existing suppressions', () => {
+		assert.ok(hasSuppression('eval(x)  # nosemgrep', '', 'python.lang.eval'));
+		assert.ok(hasSuppression('eval(x)', '    // nosemgrep: other, python.lang.eval', 'python.lang.eval'));
+		assert.ok(hasSuppression('<a href=x> <!-- nosemgrep: eval -->', '', 'python.lang.eval'));
+		assert.ok(!hasSuppression('eval(x)  # nosemgrep: other-rule', '', 'python.lang.eval'));
+		assert.ok(!hasSuppression('eval(x)', '# unrelated comment', 'python.lang.eval'));
+	});
+
+	test('Moves findings below inserted lines', () => {
+		const items = [5, 10, 20].map(line => makeFinding({ id: String(line), start: { line, col: 1 }, end: { line: line + 1, col: 1 } }));
+		shiftResultLines(items, [{ line: 5, count: 2 }, { line: 12, count: 1 }]);
+		assert.deepStrictEqual(items.map(item => [item.start.line, item.end.line]), [[7, 8], [12, 13], [23, 24]]);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { TriageHistory, applyChanges, diffSnapshots, snapshotResults } from '../TriageHistory';
+import { TriageResults } from '../types';
+import { makeFinding } from './fixtures';
+
+suite('Triage History Test Suite', () => {
+	test('Undoes and redoes a recorded operation', () => {
+		const results: TriageResults = { untriaged: [makeFinding({ id: 'a' }), makeFinding({ id: 'b' })], issues: [], falsePositives: [], fixed: [] };
+		const before = snapshotResults(results);
+
+		const item = results.untriaged.shift()!;
+		item.note = 'test code';
+		results.falsePositives.push(item);
+
+		const changes = diffSnapshots(before, snapshotResults(results));
+		assert.strictEqual(changes.length, 1);
+
+		const history = new TriageHistory();
+		history.push({ label: 'triage', changes });
+
+		applyChanges(results, history.undo()!.changes, 'before');
+		assert.deepStrictEqual(results.untriaged.map(r => r.id).sort(), ['a', 'b']);
+		assert.strictEqual(results.untriaged.find(r => r.id === 'a')!.note, undefined);
+
+		applyChanges(results, history.redo()!.changes, 'after');
+		assert.deepStrictEqual(results.falsePositives.map(r => r.id), ['a']);
+		assert.strictEqual(results.falsePositives[0].note, 'test code');
+	});
+
+	test('Clears the redo stack on a new operation', () => {
+		const history = new TriageHistory();
+		history.push({ label: 'first', changes: [] });
+		history.undo();
+		history.push({ label: 'second', changes: [] });
+		assert.strictEqual(history.nextRedo, undefined);
+		assert.strictEqual(history.nextUndo?.label, 'second');
+	});
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { ProgressFormatError } from '../progress';
+import { TriageDecision, TriageStore, applyTriageStore, buildTriageStore, mergeTriageStores, parseTriageStore, serializeTriageStore } from '../triageStore';
+import { SemgrepResult, TriageResults } from '../types';
+import { FindingOverrides, makeFinding } from './fixtures';
+
+suite('Triage Store Test Suite', () => {
+	function finding(id: string, overrides: FindingOverrides = {}): SemgrepResult {
+		return makeFinding({ id, ...overrides });
+	}
+
+	function decision(category: TriageDecision['category'], extra: Partial<TriageDecision> = {}): TriageDecision {
+		return { rule: 'python.eval', path: 'app.py', category, ...extra };
+	}
+
+	function store(findings: TriageStore['findings']): TriageStore {
+		return { formatVersion: 1, findings };
+	}
+
+	test('Keeps only decisions, sorted so that the file is stable', () => {
+		const results: TriageResults = {
+			untriaged: [finding('d'), finding('c', { note: 'look again' })],
+			issues: [finding('b', { start: { line: 40, col: 1 }, sources: ['ci.json'] })],
+			falsePositives: [finding('a', { verdict: 'Accepted risk', note: 'constant input' })],
+			fixed: []
+		};
+		const text = serializeTriageStore(buildTriageStore(results));
+		assert.deepStrictEqual(JSON.parse(text), {
+			formatVersion: 1,
+			findings: {
+				a: { rule: 'python.eval', path: 'app.py', category: 'falsePositives', verdict: 'Accepted risk', note: 'constant input' },
+				b: { rule: 'python.eval', path: 'app.py', category: 'issues' },
+				c: { rule: 'python.eval', path: 'app.py', category: 'untriaged', note: 'look again' }
+			}
+		});
+		assert.ok(text.endsWith('}\n'));
+
+		const reordered: TriageResults = {
+			untriaged: [...results.untriaged].reverse(),
+			issues: [finding('b', { start: { line: 12, col: 1 } })],
+			falsePositives: [finding('a', { note: 'constant input', verdict: 'Accepted risk' })],
+			fixed: []
+		};
+		assert.strictEqual(serializeTriageStore(buildTriageStore(reordered)), text);
+	});
+
+	test('Rejects malformed triage files', () => {
+		assert.deepStrictEqual(parseTriageStore({ formatVersion: 1, findings: { a: decision('issues', { note: '' }) } }), store({ a: decision('issues') }));
+		assert.throws(() => parseTriageStore({ formatVersion: 2, findings: {} }), ProgressFormatError);
+		assert.throws(
+			() => parseTriageStore({ formatVersion: 1, findings: { a: { ...decision('issues'), category: 'ignored' } } }),
+			(e: Error) => e instanceof ProgressFormatError && e.message.startsWith('findings."a".category:')
+		);
+	});
+
+	test('Merges identical verdicts and joins their notes', () => {
+		const { merged, conflicts } = mergeTriageStores([
+			{ label: 'alice.json', store: store({ a: decision('falsePositives', { note: 'test code' }), b: decision('issues') }) },
+			{ label: 'bob.json', store: store({ a: decision('falsePositives', { note: 'unreachable' }), c: decision('issues') }) }
+		]);
+		assert.deepStrictEqual(conflicts, []);
+		assert.deepStrictEqual(merged.findings, {
+			a: decision('falsePositives', { note: 'test code\nunreachable' }),
+			b: decision('issues'),
+			c: decision('issues')
+		});
+	});
+
+	test('Reports differing verdicts as conflicts', () => {
+		const { merged, conflicts } = mergeTriageStores([
+			{ label: 'alice.json', store: store({ a: decision('falsePositives', { verdict: 'Accepted risk' }) }) },
+			{ label: 'bob.json', store: store({ a: decision('issues') }) },
+			{ label: 'carol.json', store: store({ a: decision('falsePositives', { verdict: 'Accepted risk' }) }) }
+		]);
+		assert.deepStrictEqual(merged.findings, {});
+		assert.deepStrictEqual(conflicts, [{
+			id: 'a',
+			options: [
+				{ labels: ['alice.json', 'carol.json'], decision: decision('falsePositives', { verdict: 'Accepted risk' }) },
+				{ labels: ['bob.json'], decision: decision('issues') }
+			]
+		}]);
+	});
+
+	test('Applies decisions to the findings with the same ID', () => {
+		const results: TriageResults = { untriaged: [finding('a'), finding('b')], issues: [], falsePositives: [], fixed: [] };
+		const { applied, unmatched } = applyTriageStore(results, store({
+			a: decision('falsePositives', { verdict: 'Accepted risk', note: 'constant input' }),
+			gone: decision('issues')
+		}));
+		assert.strictEqual(applied, 1);
+		assert.deepStrictEqual(unmatched, ['gone']);
+		assert.deepStrictEqual(results.untriaged.map(item => item.id), ['b']);
+		assert.deepStrictEqual([results.falsePositives[0].verdict, results.falsePositives[0].note], ['Accepted risk', 'constant input']);
+	});
+
+	test('Moves findings in or out of Fixed only by applying their fix', () => {
+		const results: TriageResults = { untriaged: [finding('a')], issues: [], falsePositives: [], fixed: [finding('b')] };
+		applyTriageStore(results, store({ a: decision('fixed', { note: 'fixed upstream' }), b: decision('issues') }));
+		assert.deepStrictEqual([results.untriaged.map(item => item.id), results.issues, results.fixed.map(item => item.id)], [['a'], [], ['b']]);
+		assert.strictEqual(results.untriaged[0].note, 'fixed upstream');
+	});
+});
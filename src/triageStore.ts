@@ -0,0 +1,232 @@
+import { ProgressFormatError } from './progress';
+import { SemgrepResult, TRIAGE_CATEGORIES, TriageCategory, TriageResults } from './types';
+
+/**
+ * Current version of the shared triage file format.
+ */
+export const TRIAGE_STORE_VERSION = 1;
+
+/**
+ * The analyst's decision on a finding. `rule` and `path` are not used for
+ * matching; they tell reviewers of a diff which finding a line belongs to.
+ */
+export interface TriageDecision {
+    rule: string;
+    path: string;
+    category: TriageCategory;
+    verdict?: string;
+    severityOverride?: string;
+    note?: string;
+}
+
+/**
+ * Structure of a shared triage file, meant to be committed with the code:
+ *
+ * ```json
+ * {
+ *   "formatVersion": 1,
+ *   "findings": {
+ *     "<fingerprint>": { "rule": "...", "path": "...", "category": "falsePositives", "verdict": "Accepted risk", "note": "..." }
+ *   }
+ * }
+ * ```
+ *
+ * Findings are keyed by their fingerprint based ID, so decisions survive
+ * code moving around. There are no timestamps, users or line numbers, and
+ * findings nobody has looked at are left out, so that the file only changes
+ * when a decision does.
+ */
+export interface TriageStore {
+    formatVersion: number;
+    findings: { [id: string]: TriageDecision };
+}
+
+/**
+ * A finding the merged files decided differently, with each distinct
+ * decision and the files that made it.
+ */
+export interface TriageConflict {
+    id: string;
+    options: { labels: string[], decision: TriageDecision }[];
+}
+
+// Key order of a decision in the file
+const DECISION_KEYS: (keyof TriageDecision)[] = ['rule', 'path', 'category', 'verdict', 'severityOverride', 'note'];
+
+/**
+ * Collects the decisions of the current triage state: every finding that
+ * has been triaged or has a note, verdict or severity override.
+ */
+export function buildTriageStore(results: TriageResults): TriageStore {
+    const findings: { [id: string]: TriageDecision } = {};
+    for (const category of TRIAGE_CATEGORIES) {
+        for (const item of results[category]) {
+            if (category === 'untriaged' && !item.note && !item.verdict && !item.severityOverride) {
+                continue;
+            }
+            findings[item.id] = compactDecision({ ...item, rule: item.check_id, path: item.path, category });
+        }
+    }
+    return { formatVersion: TRIAGE_STORE_VERSION, findings };
+}
+
+/**
+ * Writes a triage file with its findings sorted by ID and a fixed key
+ * order, so that the same decisions always produce the same text.
+ */
+export function serializeTriageStore(store: TriageStore): string {
+    const findings: { [id: string]: TriageDecision } = {};
+    for (const id of Object.keys(store.findings).sort(compareIds)) {
+        findings[id] = compactDecision(store.findings[id]);
+    }
+    return JSON.stringify({ formatVersion: store.formatVersion, findings }, null, 2) + '\n';
+}
+
+/**
+ * Validates a parsed triage file.
+ */
+export function parseTriageStore(data: any): TriageStore {
+    if (!isObject(data)) {
+        throw new ProgressFormatError('Expected a JSON object.');
+    }
+    const version = data.formatVersion;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ProgressFormatError(`formatVersion: expected a positive integer, got ${JSON.stringify(version)}.`);
+    }
+    if (version > TRIAGE_STORE_VERSION) {
+        throw new ProgressFormatError(`formatVersion: version ${version} is newer than the supported version ${TRIAGE_STORE_VERSION}. Please update the extension.`);
+    }
+    if (!isObject(data.findings)) {
+        throw new ProgressFormatError('findings: expected an object.');
+    }
+
+    const findings: { [id: string]: TriageDecision } = {};
+    for (const [id, decision] of Object.entries<any>(data.findings)) {
+        const field = `findings.${JSON.stringify(id)}`;
+        if (!isObject(decision)) {
+            throw new ProgressFormatError(`${field}: expected an object.`);
+        }
+        if (!TRIAGE_CATEGORIES.includes(decision.category)) {
+            throw new ProgressFormatError(`${field}.category: expected one of ${TRIAGE_CATEGORIES.join(', ')}, got ${JSON.stringify(decision.category)}.`);
+        }
+        for (const key of ['rule', 'path']) {
+            if (typeof decision[key] !== 'string') {
+                throw new ProgressFormatError(`${field}.${key}: expected a string.`);
+            }
+        }
+        for (const key of ['verdict', 'severityOverride', 'note']) {
+            if (decision[key] !== undefined && typeof decision[key] !== 'string') {
+                throw new ProgressFormatError(`${field}.${key}: expected a string.`);
+            }
+        }
+        findings[id] = compactDecision(decision);
+    }
+    return { formatVersion: TRIAGE_STORE_VERSION, findings };
+}
+
+/**
+ * Merges the triage files of several reviewers. Findings only one file
+ * decided, or that all files put in the same category with the same verdict
+ * and severity, are merged automatically; their differing notes are joined.
+ * Any other finding is left out of the merged store and returned as a
+ * conflict for someone to decide.
+ */
+export function mergeTriageStores(files: { label: string, store: TriageStore }[]): { merged: TriageStore, conflicts: TriageConflict[] } {
+    const decisions = new Map<string, { label: string, decision: TriageDecision }[]>();
+    for (const { label, store } of files) {
+        for (const [id, decision] of Object.entries(store.findings)) {
+            const list = decisions.get(id) ?? [];
+            list.push({ label, decision });
+            decisions.set(id, list);
+        }
+    }
+
+    const merged: TriageStore = { formatVersion: TRIAGE_STORE_VERSION, findings: {} };
+    const conflicts: TriageConflict[] = [];
+    for (const id of Array.from(decisions.keys()).sort(compareIds)) {
+        const list = decisions.get(id)!;
+        const first = list[0].decision;
+        if (list.every(({ decision }) => sameVerdict(decision, first))) {
+            const notes = Array.from(new Set(list.map(({ decision }) => decision.note).filter(note => note)));
+            merged.findings[id] = compactDecision({ ...first, note: notes.join('\n') });
+            continue;
+        }
+
+        const options: TriageConflict['options'] = [];
+        for (const { label, decision } of list) {
+            const same = options.find(option => sameVerdict(option.decision, decision) && option.decision.note === decision.note);
+            if (same) {
+                same.labels.push(label);
+            } else {
+                options.push({ labels: [label], decision });
+            }
+        }
+        conflicts.push({ id, options });
+    }
+    return { merged, conflicts };
+}
+
+/**
+ * Applies the decisions of a triage file to the matching findings. Only
+ * applying its fix moves a finding in or out of Fixed: a finding someone
+ * else fixed is still reported here and becomes untriaged, and findings
+ * fixed in this session stay fixed. Returns the number of applied decisions
+ * and the IDs of the decisions that don't match any finding.
+ */
+export function applyTriageStore(results: TriageResults, store: TriageStore): { applied: number, unmatched: string[] } {
+    const pending = new Set(Object.keys(store.findings));
+    const moved = new Map<SemgrepResult, TriageCategory>();
+    let applied = 0;
+    for (const from of TRIAGE_CATEGORIES) {
+        for (const item of results[from]) {
+            const decision = store.findings[item.id];
+            if (!decision || !pending.delete(item.id)) {
+                continue;
+            }
+            applied++;
+            item.note = decision.note;
+            item.verdict = decision.verdict;
+            item.severityOverride = decision.severityOverride;
+            const to = from === 'fixed' ? from : decision.category === 'fixed' ? 'untriaged' : decision.category;
+            if (to !== from) {
+                moved.set(item, to);
+            }
+        }
+    }
+    if (moved.size > 0) {
+        for (const category of TRIAGE_CATEGORIES) {
+            results[category] = results[category].filter(item => !moved.has(item));
+        }
+        moved.forEach((to, item) => results[to].push(item));
+    }
+    return { applied, unmatched: Array.from(pending).sort(compareIds) };
+}
+
+/**
+ * Copies the fields of a decision in the file's key order, leaving out empty ones.
+ */
+function compactDecision(decision: TriageDecision): TriageDecision {
+    const compact: any = {};
+    for (const key of DECISION_KEYS) {
+        if (decision[key]) {
+            compact[key] = decision[key];
+        }
+    }
+    return compact;
+}
+
+function sameVerdict(a: TriageDecision, b: TriageDecision): boolean {
+    return a.category === b.category && a.verdict === b.verdict && a.severityOverride === b.severityOverride;
+}
+
+/**
+ * Compares by UTF-16 code units rather than the locale, so that the order
+ * is the same on every reviewer's machine.
+ */
+function compareIds(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function isObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,119 @@
+/**
+ * Defines the structure for a result item.
+ */
+export interface SemgrepResult {
+    check_id: string;
+    path: string;
+    start: { line: number; col: number; };
+    end: { line: number; col: number; };
+    extra: {
+        message: string;
+        severity: string;
+        lines: string;
+        fingerprint?: string;
+        // Autofix: the replacement of the matched range, or a regex replacement within it
+        fix?: string;
+        fix_regex?: { regex: string; replacement: string; count?: number; };
+        metadata?: SemgrepMetadata;
+        // "OSS" or "PRO", the engine that produced the finding
+        engine_kind?: string;
+        // Set when the finding is suppressed in the code, e.g. by a nosemgrep comment
+        is_ignored?: boolean;
+        // Taint-mode findings: source, intermediate variables and sink, see dataflowSteps
+        dataflow_trace?: any;
+    };
+    // Unique ID for internal tracking in the extension/webview
+    id: string;
+    // Analyst's justification for the triage decision
+    note?: string;
+    // Optional custom verdict, e.g. "Accepted risk"
+    verdict?: string;
+    // Severity set by the analyst, replacing the Semgrep severity
+    severityOverride?: string;
+    // Results files (or scans) the finding was loaded from
+    sources?: string[];
+    // Set when the code of the finding no longer exists in its file, e.g. because it was fixed
+    stale?: boolean;
+    // Location reported by the scan, kept when the finding is moved to where its code is now
+    scanLocation?: Pick<SemgrepResult, 'start' | 'end'>;
+}
+
+/**
+ * Rule metadata of a finding (`extra.metadata`). Semgrep rules write CWE,
+ * OWASP and references either as a string or a list; they are normalized to
+ * lists when results are loaded. Other metadata keys are kept as they are.
+ */
+export interface SemgrepMetadata {
+    // e.g. "CWE-79: Improper Neutralization of Input During Web Page Generation"
+    cwe?: string[];
+    // e.g. "A03:2021 - Injection"
+    owasp?: string[];
+    confidence?: string;
+    likelihood?: string;
+    impact?: string;
+    references?: string[];
+    // URL of the rule in the Semgrep registry
+    source?: string;
+    [key: string]: any;
+}
+
+/**
+ * The triage buckets a result can be sorted into.
+ */
+export type TriageCategory = 'untriaged' | 'issues' | 'falsePositives' | 'fixed';
+
+/**
+ * All triage categories in display order.
+ */
+export const TRIAGE_CATEGORIES: TriageCategory[] = ['untriaged', 'issues', 'falsePositives', 'fixed'];
+
+/**
+ * Human readable labels of the triage categories, for a single finding.
+ */
+export const CATEGORY_LABELS: Record<TriageCategory, string> = {
+    untriaged: 'Untriaged',
+    issues: 'Issue',
+    falsePositives: 'False Positive',
+    fixed: 'Fixed'
+};
+
+/**
+ * Human readable labels of the triage categories, for groups of findings.
+ */
+export const CATEGORY_PLURAL_LABELS: Record<TriageCategory, string> = {
+    untriaged: 'Untriaged',
+    issues: 'Issues',
+    falsePositives: 'False Positives',
+    fixed: 'Fixed'
+};
+
+/**
+ * Results of a triage session, grouped by category.
+ */
+export type TriageResults = Record<TriageCategory, SemgrepResult[]>;
+
+/**
+ * Returns the analyst's severity override, or the Semgrep severity.
+ */
+export function effectiveSeverity(result: SemgrepResult): string {
+    return result.severityOverride || result.extra.severity;
+}
+
+/**
+ * An entry of the audit trail recording who changed a finding and when.
+ */
+export interface AuditEntry {
+    // ISO timestamp of the action
+    timestamp: string;
+    // Git user name, or the OS user when git is not configured
+    user: string;
+    // What happened, e.g. "triage", "edit", "undo" or "redo"
+    action: string;
+    findingId: string;
+    check_id: string;
+    path: string;
+    from: TriageCategory;
+    to: TriageCategory;
+    // The finding's note after the action
+    note?: string;
+}